@@ -1,36 +1,235 @@
+type ModelPrices = Record<string, { input: number; output: number }>;
+
+/**
+ * Parses the LLM_PRICES environment variable, e.g. {"my-model": {"input": 0.5, "output": 1.5}}.
+ */
+function pricesFromEnv(): ModelPrices {
+  let prices: unknown;
+  try {
+    prices = JSON.parse(process.env.LLM_PRICES || '{}');
+  } catch (error) {
+    throw new Error(`LLM_PRICES is not valid JSON (${(error as Error).message}). Expected e.g. {"my-model": {"input": 0.5, "output": 1.5}}.`);
+  }
+  const isPrice = (price: any) => typeof price?.input === 'number' && typeof price?.output === 'number';
+  if (typeof prices !== 'object' || prices === null || Array.isArray(prices) || !Object.values(prices).every(isPrice)) {
+    throw new Error('LLM_PRICES must map model names to USD input and output prices per million tokens, e.g. {"my-model": {"input": 0.5, "output": 1.5}}.');
+  }
+  return prices as ModelPrices;
+}
+
 export const config = {
   discourse: {
     baseUrl: process.env.DISCOURSE_BASE_URL!,
     apiKey: process.env.DISCOURSE_API_KEY!,
     apiUsername: process.env.DISCOURSE_API_USERNAME || 'system',
     supportGroupName: process.env.SUPPORT_GROUP_NAME || 'support_team',
+    // Knowledge base namespace the forum is answered from (see `npm run kb -- namespaces`).
+    kbNamespace: process.env.DISCOURSE_KB_NAMESPACE || 'default',
   },
 
   openai: {
     apiKey: process.env.OPENAI_API_KEY!,
     model: 'gpt-4o',
+    embeddingModel: 'text-embedding-ada-002',
+    embeddingDimensions: 1536,
+  },
+
+  llm: {
+    // 'openai', 'openai-compatible' (Ollama, llama.cpp server, vLLM...) or 'fake' (deterministic and offline, for tests).
+    provider: (process.env.LLM_PROVIDER || 'openai') as 'openai' | 'openai-compatible' | 'fake',
+    // The settings below apply to the 'openai-compatible' and 'fake' providers; 'openai' uses the section above.
+    baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.LLM_API_KEY || '',
+    chatModel: process.env.LLM_CHAT_MODEL || 'llama3.1',
+    embeddingModel: process.env.LLM_EMBEDDING_MODEL || 'nomic-embed-text',
+    embeddingDimensions: parseInt(process.env.LLM_EMBEDDING_DIMENSIONS || '768', 10),
   },
   
+  retrieval: {
+    // Candidates fetched from each of the vector and full-text (BM25) searches before the rankings are fused.
+    candidates: 20,
+    // The k constant of reciprocal rank fusion; higher values flatten the difference between top and lower ranks.
+    rrfK: 60,
+    // 'none' keeps the fused order; 'llm' asks the chat model to reorder the fused candidates.
+    rerank: (process.env.RETRIEVAL_RERANK || 'none') as 'none' | 'llm',
+    // Upper bound on passages from a single source, after adjacent chunks have been merged.
+    maxChunksPerSource: 2,
+    // Passages less similar to the question than this (cosine similarity, 0 to 1) are not used to answer it.
+    // Scores depend on the embedding model: text-embedding-ada-002 rates even unrelated text around 0.7, so raise this
+    // to about 0.8 there. `npm run kb -- search` prints the scores to calibrate against. The fake provider's hashed
+    // bags of words rate even closely related text below 0.35, so it defaults to 0.1.
+    minScore: parseFloat(process.env.RETRIEVAL_MIN_SCORE || (process.env.LLM_PROVIDER === 'fake' ? '0.1' : '0.5')),
+    // Ask the chat model whether each drafted answer is supported by the passages before it is sent.
+    groundingCheck: process.env.GROUNDING_CHECK !== 'false',
+  },
+
+  crawler: {
+    // Sent with every request and matched against the user-agent groups in robots.txt.
+    userAgent: process.env.CRAWLER_USER_AGENT || 'discourse-bot-crawler/1.0',
+    // 'browser' renders pages in headless Chromium; 'static' fetches the raw HTML, which is much faster for server-rendered sites.
+    mode: (process.env.CRAWLER_MODE || 'browser') as 'browser' | 'static',
+    // Pages fetched at the same time.
+    concurrency: parseInt(process.env.CRAWLER_CONCURRENCY || '2', 10),
+    // Minimum time between two requests to the same host; a longer Crawl-delay in robots.txt takes precedence.
+    delayMs: parseInt(process.env.CRAWLER_DELAY_MS || '1000', 10),
+    // Links followed away from the start page (and sitemap entries) before the crawler stops descending.
+    maxDepth: parseInt(process.env.CRAWLER_MAX_DEPTH || '5', 10),
+  },
+
+  context: {
+    // Token budgets of the reply prompt, with tokens estimated at four characters each. The newest messages are kept
+    // word for word up to `historyTokens`; older ones are folded into a rolling summary kept in the state DB.
+    historyTokens: parseInt(process.env.CONTEXT_HISTORY_TOKENS || '1500', 10),
+    // Knowledge base passages past this are left out, lowest-ranked first; the best passage is always kept.
+    knowledgeTokens: parseInt(process.env.CONTEXT_KNOWLEDGE_TOKENS || '3000', 10),
+    summaryTokens: 300,
+    // Rewrite follow-up messages into standalone search queries using the conversation so far.
+    queryRewrite: process.env.QUERY_REWRITE !== 'false',
+  },
+
+  prompts: {
+    // Prompt templates live here, one folder per prompt holding numbered versions: ai_reply_system/v1.md, v2.md...
+    templatesPath: process.env.PROMPT_TEMPLATES_PATH || './prompt_templates',
+    // Pins prompts to a version, e.g. "ai_reply_system=1,intent_classifier=2". Unpinned prompts use their newest version.
+    pinnedVersions: process.env.PROMPT_VERSIONS || '',
+    // How the bot presents itself in channels without a /persona of their own.
+    persona: process.env.BOT_PERSONA || 'an expert support assistant',
+    tone: (process.env.BOT_TONE || 'professional') as 'professional' | 'friendly' | 'casual',
+    length: (process.env.BOT_REPLY_LENGTH || 'medium') as 'short' | 'medium' | 'long',
+  },
+
   paths: {
     lanceDb: process.env.LANCE_DB_PATH || './data/lancedb',
-    repliedPostsDb: './data/bot_state.db',
+    repliedPostsDb: process.env.STATE_DB_PATH || './data/bot_state.db',
+    transcripts: process.env.TRANSCRIPTS_PATH || './data/transcripts',
+    // Golden questions for `npm run eval`, and where the results of each run are kept to compare against.
+    evalDataset: process.env.EVAL_DATASET_PATH || './evals/golden.jsonl',
+    evalRuns: process.env.EVAL_RUNS_PATH || './data/evals',
+  },
+
+  tickets: {
+    // Send the closing transcript to the ticket opener by DM when a ticket is closed.
+    dmTranscriptOnClose: process.env.DM_TRANSCRIPT_ON_CLOSE === 'true',
+  },
+
+  forum: {
+    // Past forum posts linked under a new one as "This looks related to …", and how similar they must be (0 to 1).
+    relatedThreads: parseInt(process.env.FORUM_RELATED_THREADS || '3', 10),
+    relatedMinScore: parseFloat(process.env.FORUM_RELATED_MIN_SCORE || '0.85'),
+    // Let the model apply the forum's own tags (bug, how-to, billing...) to new posts.
+    autoTag: process.env.FORUM_AUTO_TAG !== 'false',
+    // Name of the forum tag applied once the poster confirms their problem is solved; case does not matter.
+    solvedTagName: process.env.FORUM_SOLVED_TAG || 'Solved',
+  },
+
+  escalations: {
+    // Minutes an escalation may stay unclaimed before the support role is pinged again.
+    slaMinutes: parseInt(process.env.ESCALATION_SLA_MINUTES || '30', 10),
+    // Re-pings of the support role before an unclaimed escalation goes to `discord.escalationRoleId`.
+    maxRepings: parseInt(process.env.ESCALATION_MAX_REPINGS || '2', 10),
+    checkIntervalSeconds: 60,
+  },
+
+  abuse: {
+    // Messages one user may send to the bot per window before being asked to slow down.
+    userMessages: parseInt(process.env.RATE_LIMIT_USER_MESSAGES || '5', 10),
+    userWindowSeconds: parseInt(process.env.RATE_LIMIT_USER_WINDOW_SECONDS || '60', 10),
+    // Messages the bot answers per channel or thread per window, across all users.
+    channelMessages: parseInt(process.env.RATE_LIMIT_CHANNEL_MESSAGES || '20', 10),
+    channelWindowSeconds: parseInt(process.env.RATE_LIMIT_CHANNEL_WINDOW_SECONDS || '60', 10),
+    // Longer messages are not sent to the model at all.
+    maxMessageLength: parseInt(process.env.MAX_MESSAGE_LENGTH || '1500', 10),
+    // Run messages through the provider's moderation endpoint first, where it has one (only 'openai' does).
+    moderation: process.env.MODERATION !== 'false',
+    // Refuse messages that look like attempts to override the bot's instructions.
+    promptInjectionCheck: process.env.PROMPT_INJECTION_CHECK !== 'false',
+  },
+
+  attachments: {
+    // Files in a message the bot reads; further attachments are ignored.
+    maxFiles: parseInt(process.env.ATTACHMENT_MAX_FILES || '3', 10),
+    // Larger files are not downloaded at all.
+    maxBytes: parseInt(process.env.ATTACHMENT_MAX_BYTES || String(2 * 1024 * 1024), 10),
+    // Text kept per attachment for the model; longer files keep their start and, as logs end in the error, their end.
+    maxChars: parseInt(process.env.ATTACHMENT_MAX_CHARS || '4000', 10),
+    // Attachment text added to the retrieval query, preferring lines that look like errors.
+    maxQueryChars: 500,
+    downloadTimeoutMs: 15000,
+    // Read text out of screenshots with Tesseract, when its command-line tool is installed.
+    ocr: process.env.ATTACHMENT_OCR !== 'false',
+    tesseractPath: process.env.TESSERACT_PATH || 'tesseract',
+  },
+
+  logging: {
+    // 'json' writes one JSON object per line, for log collectors; 'pretty' keeps the plain console lines.
+    format: (process.env.LOG_FORMAT || 'json') as 'json' | 'pretty',
+    level: (process.env.LOG_LEVEL || 'info') as 'debug' | 'info' | 'warn' | 'error',
+  },
+
+  costs: {
+    // USD per million tokens, by model; models not listed cost nothing, as local ones do. LLM_PRICES adds or overrides
+    // models as JSON, e.g. {"my-model": {"input": 0.5, "output": 1.5}}.
+    pricesPerMillionTokens: {
+      'gpt-4o': { input: 2.5, output: 10 },
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+      'gpt-4.1': { input: 2, output: 8 },
+      'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+      'text-embedding-ada-002': { input: 0.1, output: 0 },
+      'text-embedding-3-small': { input: 0.02, output: 0 },
+      'text-embedding-3-large': { input: 0.13, output: 0 },
+      ...pricesFromEnv(),
+    } as ModelPrices,
+    // Spend per UTC day and per ticket that raises an alert; 0 turns the alert off.
+    dailyBudgetUsd: parseFloat(process.env.DAILY_BUDGET_USD || '0'),
+    ticketBudgetUsd: parseFloat(process.env.TICKET_BUDGET_USD || '0'),
+    // Share of a budget at which a first alert goes out; a second one follows when it is used up.
+    warnAt: 0.8,
+    // Discord or Slack incoming webhook that receives budget alerts, besides the log.
+    alertWebhookUrl: process.env.BUDGET_ALERT_WEBHOOK_URL || '',
+  },
+
+  api: {
+    // Port of the HTTP API served alongside the bot. Leave unset to serve no HTTP at all.
+    port: parseInt(process.env.API_PORT || '0', 10),
+    // Port of the HTTP API served by the Discourse worker, which cannot share the Discord bot's. Leave unset to serve none.
+    discoursePort: parseInt(process.env.DISCOURSE_API_PORT || '0', 10),
+    host: process.env.API_HOST || '127.0.0.1',
+    // Comma-separated keys with access to every route, for admin tools and integrations.
+    keys: (process.env.API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean),
+    // Keys that may only ask questions and check health, e.g. for a website widget, where the key is public.
+    askKeys: (process.env.API_ASK_KEYS || '').split(',').map(key => key.trim()).filter(Boolean),
+    // Websites allowed to call the API from the browser, e.g. "https://example.com". Leave unset for server-side use only.
+    corsOrigins: (process.env.API_CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean),
+    // Uploaded files are sent base64-encoded in the JSON body, which makes them about a third larger.
+    maxBodyBytes: parseInt(process.env.API_MAX_BODY_BYTES || String(15 * 1024 * 1024), 10),
   },
 
   discord: {
     token: process.env.DISCORD_BOT_TOKEN!,
     clientId: process.env.DISCORD_CLIENT_ID!,
-    guildId: process.env.DISCORD_GUILD_ID!,
-    ticketChannelId: process.env.DISCORD_TICKET_CHANNEL_ID!,
-    supportRoleId: process.env.DISCORD_SUPPORT_ROLE_ID!,
-    forumChannelId: process.env.DISCORD_FORUM_CHANNEL_ID!,
+    // Servers are normally configured with /setup, which stores their settings in the state DB. The settings below
+    // describe one server the old way, and apply to it until /setup is run there.
+    guildId: process.env.DISCORD_GUILD_ID || '',
+    ticketChannelId: process.env.DISCORD_TICKET_CHANNEL_ID || '',
+    supportRoleId: process.env.DISCORD_SUPPORT_ROLE_ID || '',
+    forumChannelId: process.env.DISCORD_FORUM_CHANNEL_ID || '',
+    // Channel where Q&A pairs from closed tickets wait for staff approval. Leave unset to turn the review queue off.
+    reviewChannelId: process.env.DISCORD_REVIEW_CHANNEL_ID || '',
+    // Staff channel that receives escalations. Leave unset to ping the support role inside the ticket instead.
+    escalationChannelId: process.env.DISCORD_ESCALATION_CHANNEL_ID || '',
+    // Role pinged when an escalation is still unclaimed after every re-ping, e.g. team leads. Optional.
+    escalationRoleId: process.env.DISCORD_ESCALATION_ROLE_ID || '',
   },
 
   bot: {
-    instanceId: Math.random().toString(36).substring(2, 8),
+    // Names this process in logs, metrics and model usage; a random ID per start unless INSTANCE_ID is set.
+    instanceId: process.env.INSTANCE_ID || Math.random().toString(36).substring(2, 8),
     version: '4.O hybrid powered by AgentBrain',
     thinkingMessages: [ /* ... */ ],
     polling_interval_seconds: 5,
-    support_email: "your-support-team-email@example.com",
+    // Mentioned in replies; servers can override both with /setup.
+    productName: process.env.PRODUCT_NAME || 'our product',
+    support_email: process.env.SUPPORT_EMAIL || "your-support-team-email@example.com",
     max_reply_tokens: 300,
     max_intent_tokens: 10
   },
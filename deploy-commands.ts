@@ -1,13 +1,9 @@
 // deploy-commands.ts
 import { REST, Routes } from 'discord.js';
 import { config } from './config.js';
+import { ticketCommands } from './lib/ticket-commands.js';
 
-const commands = [
-  {
-    name: 'close',
-    description: 'Closes the support ticket.',
-  },
-];
+const commands = ticketCommands.map(command => command.data.toJSON());
 
 const rest = new REST({ version: '10' }).setToken(config.discord.token);
 
@@ -15,13 +11,16 @@ const rest = new REST({ version: '10' }).setToken(config.discord.token);
   try {
     console.log('Started refreshing application (/) commands.');
 
-    await rest.put(
-      Routes.applicationGuildCommands(config.discord.clientId, config.discord.guildId),
-      { body: commands },
-    );
+    // Global commands work in every server the bot is in; Discord can take a few minutes to show changes.
+    await rest.put(Routes.applicationCommands(config.discord.clientId), { body: commands });
 
-    console.log('Successfully reloaded application (/) commands.');
+    // Earlier versions registered the commands to DISCORD_GUILD_ID only. Left in place, that server would list every command twice.
+    if (config.discord.guildId) {
+      await rest.put(Routes.applicationGuildCommands(config.discord.clientId, config.discord.guildId), { body: [] });
+    }
+
+    console.log(`Successfully reloaded ${commands.length} application (/) commands globally.`);
   } catch (error) {
     console.error(error);
   }
-})();
\ No newline at end of file
+})();
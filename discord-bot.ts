@@ -7,157 +7,482 @@ import {
   Partials,
   MessageFlags,
   GuildMember,
+  PermissionFlagsBits,
+  AnyThreadChannel,
+  User,
 } from 'discord.js';
-import { OpenAI } from 'openai';
-import { vectorStore } from './lib/vector-store.js';
 import { config } from './config.js';
-import { prompts } from './prompts.js';
+import { ACCEPT_PATTERN, DECLINE_PATTERN, determineUserIntent, generateAiReply } from './lib/agent.js';
+import { ChatMessage } from './lib/llm.js';
+import { ticketStore } from './lib/ticket-store.js';
+import { ticketCommands } from './lib/ticket-commands.js';
+import { feedbackStore, FEEDBACK_VOTES, FeedbackVote } from './lib/feedback-store.js';
+import {
+    autoTagForumPost,
+    checkEscalationSlas,
+    CREATE_TICKET_BUTTON_ID,
+    ensureTicket,
+    ESCALATION_PREFIX,
+    escalateTicket,
+    escalationMessage,
+    FEEDBACK_BUTTON_PREFIX,
+    isForumPost,
+    isSupportStaff,
+    isSupportThread,
+    isThreadOwner,
+    knowledgeAccessFor,
+    markForumPostSolved,
+    parseSeverity,
+    readMessageAttachments,
+    recordTicketMessage,
+    relatedThreadsMessage,
+    RESOLUTION_PREFIX,
+    resolutionEditModal,
+    resolutionReviewMessage,
+    supportRoleMention,
+    TICKET_INTAKE_PREFIX,
+    ticketCategoryMenu,
+    ticketIntakeMessage,
+    ticketIntakeModal,
+    ticketThreadName,
+} from './lib/discord-tickets.js';
+import { publishResolvedAnswer, ResolvedAnswer, resolvedAnswerStore } from './lib/resolved-answers.js';
+import { escalationStore } from './lib/escalations.js';
+import { checkAttachmentText, checkIncomingMessage } from './lib/abuse-guard.js';
+import { attachmentQuery, attachmentStore, withAttachments } from './lib/attachments.js';
+import { guildSettingsStore } from './lib/guild-settings.js';
+import { replyStyleFor } from './lib/personas.js';
+import { streamAiReply } from './lib/discord-replies.js';
+import { startApiServer } from './lib/http-api.js';
+import { checkKnowledgeTables } from './lib/knowledge-base.js';
+import { installConsoleCapture, withLogContext } from './lib/logger.js';
+import { metrics } from './lib/metrics.js';
+import { ticketCategoryStore } from './lib/ticket-categories.js';
+import { findRelatedThreads, indexForumThread } from './lib/forum-threads.js';
 
-const openai = new OpenAI({ apiKey: config.openai.apiKey });
+installConsoleCapture();
 
-type UserIntent = 'question' | 'escalation_request' | 'follow_up' | 'other';
+const client = new Client({ intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages, GatewayIntentBits.MessageContent], partials: [Partials.Channel] });
 
-const DEFAULT_ERROR_MESSAGE = "I'm sorry, I encountered a technical issue and couldn't process your request. A human agent has been notified.";
+// Users whose ticket is being created, as `<guild ID>:<user ID>`, so a form sent twice opens one ticket.
+const openingTickets = new Set<string>();
 
-async function determineUserIntent(postContent: string): Promise<UserIntent> {
-    const prompt = prompts.intent_classifier(postContent);
-    try {
-        const completion = await openai.chat.completions.create({
-            model: config.openai.model,
-            messages: [{ role: 'user', content: prompt }],
-            max_tokens: config.bot.max_intent_tokens,
-            temperature: 0,
-        });
-        const rawIntent = completion.choices[0].message.content?.trim().toLowerCase() || 'other';
-        const cleanIntent = rawIntent.split(/[\s:]+/)[0].replace(/"/g, '');
-        const validIntents: UserIntent[] = ['question', 'escalation_request', 'follow_up', 'other'];
-        if ((validIntents as string[]).includes(cleanIntent)) { return cleanIntent as UserIntent; }
-        return 'other';
-    } catch (error) {
-        console.error("Error determining user intent:", error);
-        return 'other';
-    }
-}
+client.once(Events.ClientReady, c => {
+    console.log(`🚀 Discord Bot is ready! Logged in as ${c.user.tag}`);
+    const unconfigured = c.guilds.cache.filter(guild => !guildSettingsStore.get(guild.id));
+    console.log(`- Serving ${c.guilds.cache.size} server(s)${unconfigured.size > 0 ? `; not set up yet: ${unconfigured.map(guild => guild.name).join(', ')}. Run /setup there.` : '.'}`);
+    setInterval(() => {
+        checkEscalationSlas(c).catch(error => console.error('- Failed to check escalation SLAs:', error));
+    }, config.escalations.checkIntervalSeconds * 1000);
+});
 
-async function generateAiReply(topicTitle: string, conversation_history: OpenAI.Chat.ChatCompletionMessageParam[]): Promise<string> {
-    const lastUserMessage = conversation_history[conversation_history.length - 1].content as string;
-    
-    const similarDocs = await vectorStore.similaritySearch(lastUserMessage, 5);
+/**
+ * Adds a reviewed question/answer pair to the knowledge base and records who approved it.
+ */
+async function approveResolution(entry: ResolvedAnswer, reviewer: string): Promise<ResolvedAnswer> {
+    const stored = await publishResolvedAnswer(entry);
+    resolvedAnswerStore.markReviewed(entry.id, 'approved', reviewer);
+    console.log(`✅ ${reviewer} approved review #${entry.id}; stored ${stored} chunks from ${entry.thread_name}.`);
+    return resolvedAnswerStore.get(entry.id)!;
+}
 
-    if (similarDocs.length === 0) {
-        return "I'm sorry, I couldn't find any relevant information in my knowledge base to answer your question. If you'd like, I can escalate this to a human agent.";
+/**
+ * Finds the private ticket a user already has open in a server. Tickets whose thread was deleted or locked without
+ * /close are closed in the ticket store instead, so they no longer hold the user back.
+ */
+async function findOpenTicketThread(guildId: string, userId: string): Promise<AnyThreadChannel | null> {
+    const ticket = ticketStore.findOpenByOpener(guildId, userId);
+    if (!ticket) return null;
+    const thread = await client.channels.fetch(ticket.thread_id).catch(() => null);
+    if (!thread?.isThread() || thread.locked) {
+        ticketStore.close(ticket.thread_id, client.user!.username);
+        console.log(`- Closed stale ticket ${ticket.name}; its thread is gone or locked.`);
+        return null;
     }
+    if (thread.archived) await thread.setArchived(false);
+    return thread;
+}
 
-    const formattedContext = similarDocs
-        .map((doc, index) => `[Source ${index + 1}: ${doc.title}]\n${doc.content}`)
-        .join('\n\n---\n\n');
-
-    const system_prompt = prompts.ai_reply_system(topicTitle, formattedContext);
-    const messages_for_api: OpenAI.Chat.ChatCompletionMessageParam[] = [{ role: 'system', content: system_prompt }, ...conversation_history];
-    
-    try {
-        const response = await openai.chat.completions.create({ model: config.openai.model, messages: messages_for_api, max_tokens: config.bot.max_reply_tokens });
-        const aiResponse = response.choices[0].message.content;
+/**
+ * Answers the description a ticket was opened with, as if the user had posted it in the thread.
+ * @param question The description, with the product and version from the form.
+ */
+async function answerIntake(thread: AnyThreadChannel, user: User, question: string): Promise<void> {
+    const verdict = await checkIncomingMessage({ guildId: thread.guildId, channelId: thread.id, userId: user.id, userTag: user.username, content: question });
+    if (!verdict.allowed) {
+        if (verdict.notice) await thread.send(verdict.notice);
+        return;
+    }
+    const intent = await determineUserIntent(question);
+    console.log(`- Ticket form intent: ${intent}`);
+    ticketStore.recordIntent(thread.id, `intake:${thread.id}`, intent);
+    if (intent === 'escalation_request') {
+        await thread.send(`I understand. ${await escalateTicket(thread, 'The user asked for a human in the ticket form.')}`);
+        return;
+    }
+    const access = await knowledgeAccessFor(thread);
+    const { reply: aiReply, message: answerMessage } = await streamAiReply(thread, onDraft => generateAiReply(thread.name, [{ role: 'user', content: question }], {
+        namespace: guildSettingsStore.get(thread.guildId)?.kb_namespace,
+        access,
+        conversationId: thread.id,
+        style: replyStyleFor(thread.guildId, thread.parentId),
+        onDraft,
+    }), 'The bot was not confident it could answer correctly.');
+    metrics.replies.inc({ channel: 'ticket', outcome: aiReply.escalate ? 'escalated' : 'answered' });
+    feedbackStore.recordAnswer(answerMessage.id, thread.id, question, aiReply);
+    if (aiReply.offersEscalation && !aiReply.escalate) ticketStore.offerEscalation(thread.id, answerMessage.id);
+}
 
-        // --- ROBUSTNESS FIX ---
-        if (!aiResponse || aiResponse.trim() === '') {
-            console.error("OpenAI returned an empty or null response.");
-            return DEFAULT_ERROR_MESSAGE;
+// --- All event listeners remain the same ---
+client.on(Events.InteractionCreate, interaction => withLogContext({ correlationId: interaction.channelId ?? interaction.id, guildId: interaction.guildId ?? undefined }, async () => {
+    if (interaction.isButton() && interaction.customId === CREATE_TICKET_BUTTON_ID) {
+        try {
+            if (!interaction.inGuild() || interaction.channel?.type !== ChannelType.GuildText) {
+                await interaction.reply({ content: 'This button can only be used in a server text channel.', flags: MessageFlags.Ephemeral });
+                return;
+            }
+            const existing = await findOpenTicketThread(interaction.guildId, interaction.user.id);
+            if (existing) {
+                await interaction.reply({ content: `You already have an open ticket: ${existing.toString()}. Please continue there.`, flags: MessageFlags.Ephemeral });
+                return;
+            }
+            const categories = ticketCategoryStore.list(interaction.guildId);
+            if (categories.length > 0) await interaction.reply({ ...ticketCategoryMenu(categories), flags: MessageFlags.Ephemeral });
+            else await interaction.showModal(ticketIntakeModal(null));
+        } catch (error) {
+            console.error('- Failed to start the ticket form:', error);
+            if (!interaction.replied) {
+                await interaction.reply({ content: 'Sorry, I was unable to create a ticket.', flags: MessageFlags.Ephemeral })
+                    .catch(replyError => console.error('- Could not tell the user:', replyError));
+            }
         }
-
-        const sources = similarDocs.map((doc, index) => {
-            if (aiResponse.includes(`[${index + 1}]`)) {
-                const link = doc.url.startsWith('http') ? `[${doc.title}](${doc.url})` : doc.title;
-                return `${index + 1}. ${link}`;
+        return;
+    }
+    if (interaction.isStringSelectMenu() && interaction.customId === `${TICKET_INTAKE_PREFIX}category`) {
+        try {
+            await interaction.showModal(ticketIntakeModal(interaction.values[0]));
+        } catch (error) {
+            console.error('- Failed to show the ticket form:', error);
+        }
+        return;
+    }
+    if (interaction.isModalSubmit() && interaction.customId.startsWith(`${TICKET_INTAKE_PREFIX}form:`)) {
+        try {
+            await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+            if (!interaction.inGuild() || interaction.channel?.type !== ChannelType.GuildText) {
+                await interaction.editReply({ content: 'Tickets can only be opened from a server text channel.' });
+                return;
             }
-            return null;
-        }).filter(Boolean);
-
-        let finalReply = aiResponse;
-        if (sources.length > 0) {
-            finalReply = `${aiResponse}\n\n**Sources:**\n${sources.join('\n')}`;
+            const lockKey = `${interaction.guildId}:${interaction.user.id}`;
+            if (openingTickets.has(lockKey)) {
+                await interaction.editReply({ content: 'Your ticket is already being created.' });
+                return;
+            }
+            openingTickets.add(lockKey);
+            try {
+                const existing = await findOpenTicketThread(interaction.guildId, interaction.user.id);
+                if (existing) {
+                    await interaction.editReply({ content: `You already have an open ticket: ${existing.toString()}. Please continue there.` });
+                    return;
+                }
+                const category = interaction.customId.slice(`${TICKET_INTAKE_PREFIX}form:`.length) || null;
+                const description = interaction.fields.getTextInputValue('description').trim();
+                const productVersion = interaction.fields.getTextInputValue('product').trim() || null;
+                const number = ticketStore.nextNumber(interaction.guildId);
+                const thread = await interaction.channel.threads.create({ name: ticketThreadName(number, interaction.user.username), type: ChannelType.PrivateThread });
+                ticketStore.open({
+                    threadId: thread.id,
+                    guildId: thread.guildId,
+                    parentId: interaction.channel.id,
+                    kind: 'ticket',
+                    name: thread.name,
+                    openerId: interaction.user.id,
+                    openerTag: interaction.user.username,
+                    number,
+                    category,
+                    productVersion,
+                    priority: parseSeverity(interaction.fields.getTextInputValue('severity')),
+                });
+                await thread.members.add(interaction.user.id);
+                // The form is the user's first message, so later answers in the ticket see it in the transcript.
+                const question = productVersion ? `${description}\n\nProduct and version: ${productVersion}` : description;
+                ticketStore.recordMessage({
+                    messageId: `intake:${thread.id}`,
+                    threadId: thread.id,
+                    authorId: interaction.user.id,
+                    authorTag: interaction.user.username,
+                    authorType: 'user',
+                    content: question,
+                    createdAt: new Date(),
+                });
+                await thread.send({ ...ticketIntakeMessage(ticketStore.get(thread.id)!, description), allowedMentions: { users: [interaction.user.id] } });
+                await interaction.editReply({ content: `Your private ticket has been created: ${thread.toString()}` });
+                console.log(`🎟️ Opened ticket #${number} for ${interaction.user.username}${category ? ` in ${category}` : ''}.`);
+                await withLogContext({ correlationId: thread.id, guildId: thread.guildId }, () => answerIntake(thread, interaction.user, question))
+                    .catch(error => console.error(`- Failed to answer the ticket form in ${thread.name}:`, error));
+            } catch (error) {
+                console.error('Failed to create ticket thread:', error);
+                await interaction.editReply({ content: 'Sorry, I was unable to create a ticket.' })
+                    .catch(replyError => console.error('- Could not tell the user:', replyError));
+            } finally {
+                openingTickets.delete(lockKey);
+            }
+        } catch (error) {
+            console.error('- Failed to handle the ticket form:', error);
         }
-        
-        return finalReply.trim() === '' ? DEFAULT_ERROR_MESSAGE : finalReply;
-
-    } catch (e) {
-        console.error("Error generating AI reply:", e);
-        return DEFAULT_ERROR_MESSAGE;
+        return;
     }
-}
-
-const client = new Client({ intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages, GatewayIntentBits.MessageContent], partials: [Partials.Channel] });
-
-client.once(Events.ClientReady, c => { console.log(`🚀 Discord Bot is ready! Logged in as ${c.user.tag}`); });
-
-// --- All event listeners remain the same ---
-client.on(Events.InteractionCreate, async interaction => {
-    if (interaction.isButton() && interaction.customId === 'create_ticket_button') {
-        await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    if (interaction.isButton() && interaction.customId.startsWith(FEEDBACK_BUTTON_PREFIX)) {
+        const vote = interaction.customId.slice(FEEDBACK_BUTTON_PREFIX.length) as FeedbackVote;
+        if (!FEEDBACK_VOTES.includes(vote) || !interaction.channel?.isThread()) return;
+        const thread = interaction.channel;
         try {
-            if (!interaction.channel || interaction.channel.type !== ChannelType.GuildText) {
-                await interaction.editReply({ content: 'This button can only be used in a server text channel.' });
+            if (!feedbackStore.getAnswer(interaction.message.id)) {
+                await interaction.reply({ content: 'This answer can no longer be rated.', flags: MessageFlags.Ephemeral });
+                return;
+            }
+            if (vote === 'human') {
+                const member = interaction.member as GuildMember;
+                if (!isSupportStaff(member) && !await isThreadOwner(thread, member)) {
+                    await interaction.reply({ content: 'Only the person who opened this ticket can ask for a human.', flags: MessageFlags.Ephemeral });
+                    return;
+                }
+                feedbackStore.recordVote(interaction.message.id, interaction.user.id, vote);
+                console.log(`- ${interaction.user.username} asked for a human in ticket ${thread.name}.`);
+                await interaction.deferReply();
+                await interaction.editReply({ content: `Of course. ${await escalateTicket(thread, 'The user pressed "Talk to a human" under an AI answer.')}` });
                 return;
             }
-            const thread = await interaction.channel.threads.create({ name: `ticket-${interaction.user.username}`, type: ChannelType.PrivateThread });
-            await thread.members.add(interaction.user.id);
-            await thread.send(`Hi ${interaction.user.toString()}, welcome to your private support ticket! Please describe your issue, and I'll do my best to help.`);
-            await interaction.editReply({ content: `Your private ticket has been created: ${thread.toString()}` });
+            feedbackStore.recordVote(interaction.message.id, interaction.user.id, vote);
+            await interaction.reply({
+                content: vote === 'solved'
+                    ? "Glad that helped! Thanks for letting us know."
+                    : "Thanks for the feedback. Feel free to add more detail, or press \"Talk to a human\" to reach the support team.",
+                flags: MessageFlags.Ephemeral,
+            });
+            // Only the poster can confirm that a forum post is solved.
+            if (vote === 'solved' && isForumPost(thread) && await isThreadOwner(thread, interaction.member as GuildMember)) {
+                await markForumPostSolved(thread, feedbackStore.getAnswer(interaction.message.id)!.answer);
+            }
         } catch (error) {
-            console.error('Failed to create ticket thread:', error);
-            await interaction.editReply({ content: 'Sorry, I was unable to create a ticket.' });
+            console.error(`- Failed to record feedback in ${thread.name}:`, error);
         }
         return;
     }
-    if (interaction.isChatInputCommand() && interaction.commandName === 'close') {
-        if (!interaction.channel?.isThread()) {
+    if ((interaction.isButton() || interaction.isModalSubmit()) && interaction.customId.startsWith(RESOLUTION_PREFIX)) {
+        const [action, id] = interaction.customId.slice(RESOLUTION_PREFIX.length).split(':');
+        const entry = resolvedAnswerStore.get(Number(id));
+        try {
+            if (!interaction.inGuild() || !isSupportStaff(interaction.member as GuildMember)) {
+                await interaction.reply({ content: 'Only the support team can review answers.', flags: MessageFlags.Ephemeral });
+                return;
+            }
+            if (!entry || entry.status !== 'pending') {
+                await interaction.reply({ content: 'This answer has already been reviewed.', flags: MessageFlags.Ephemeral });
+                return;
+            }
+            if (interaction.isButton() && action === 'edit') {
+                await interaction.showModal(resolutionEditModal(entry));
+            } else if (interaction.isButton() && action === 'reject') {
+                resolvedAnswerStore.markReviewed(entry.id, 'rejected', interaction.user.username);
+                await interaction.update(resolutionReviewMessage(resolvedAnswerStore.get(entry.id)!));
+            } else if (interaction.isButton() && action === 'approve') {
+                // Embedding can take longer than Discord's three second deadline, so acknowledge first.
+                await interaction.deferUpdate();
+                await interaction.editReply(resolutionReviewMessage(await approveResolution(entry, interaction.user.username)));
+            } else if (interaction.isModalSubmit() && interaction.isFromMessage() && action === 'save') {
+                await interaction.deferUpdate();
+                resolvedAnswerStore.edit(entry.id, interaction.fields.getTextInputValue('question').trim(), interaction.fields.getTextInputValue('answer').trim());
+                const edited = resolvedAnswerStore.get(entry.id)!;
+                await interaction.editReply(resolutionReviewMessage(await approveResolution(edited, interaction.user.username)));
+            }
+        } catch (error) {
+            console.error(`- Failed to review #${id}:`, error);
+            if (!interaction.replied && !interaction.deferred) {
+                await interaction.reply({ content: 'Sorry, something went wrong while reviewing this answer.', flags: MessageFlags.Ephemeral })
+                    .catch(replyError => console.error('- Could not tell the user:', replyError));
+            }
+        }
+        return;
+    }
+    if (interaction.isButton() && interaction.customId.startsWith(ESCALATION_PREFIX)) {
+        const [action, id] = interaction.customId.slice(ESCALATION_PREFIX.length).split(':');
+        const entry = escalationStore.get(Number(id));
+        try {
+            if (!interaction.inGuild() || !isSupportStaff(interaction.member as GuildMember)) {
+                await interaction.reply({ content: 'Only the support team can handle escalations.', flags: MessageFlags.Ephemeral });
+                return;
+            }
+            if (!entry || entry.status === 'resolved' || (action === 'claim' && entry.status !== 'open')) {
+                await interaction.reply({ content: 'This escalation has already been handled.', flags: MessageFlags.Ephemeral });
+                return;
+            }
+            const thread = await client.channels.fetch(entry.thread_id);
+            if (action === 'claim') {
+                escalationStore.claim(entry.id, interaction.user.id);
+                ticketStore.claim(entry.thread_id, interaction.user.id);
+                await interaction.update(escalationMessage(escalationStore.get(entry.id)!));
+                if (thread?.isThread()) {
+                    await thread.members.add(interaction.user.id);
+                    await thread.send(`🙋 ${interaction.user.toString()} from the support team has claimed this ticket and will take it from here.`);
+                }
+            } else if (action === 'resolve') {
+                escalationStore.resolve(entry.id, interaction.user.id);
+                await interaction.update(escalationMessage(escalationStore.get(entry.id)!));
+            }
+            console.log(`- ${interaction.user.username} ${action === 'claim' ? 'claimed' : 'resolved'} escalation #${entry.id}.`);
+        } catch (error) {
+            console.error(`- Failed to ${action} escalation #${id}:`, error);
+            if (!interaction.replied) {
+                await interaction.reply({ content: 'Sorry, something went wrong while updating this escalation.', flags: MessageFlags.Ephemeral })
+                    .catch(replyError => console.error('- Could not tell the user:', replyError));
+            }
+        }
+        return;
+    }
+    if (interaction.isChatInputCommand()) {
+        const command = ticketCommands.find(c => c.data.name === interaction.commandName);
+        if (!command) return;
+        if (command.scope === 'guild') {
+            const allowed = interaction.inGuild() && (command.permission === 'admin'
+                ? interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)
+                : isSupportStaff(interaction.member as GuildMember));
+            if (!allowed) {
+                await interaction.reply({ content: `You do not have permission to use /${command.data.name}.`, flags: MessageFlags.Ephemeral });
+                return;
+            }
+            try {
+                await command.execute(interaction);
+            } catch (error) {
+                console.error(`- Failed to run /${command.data.name}:`, error);
+                if (interaction.deferred) {
+                    await interaction.editReply({ content: 'Sorry, something went wrong while running that command.' });
+                } else if (!interaction.replied) {
+                    await interaction.reply({ content: 'Sorry, something went wrong while running that command.', flags: MessageFlags.Ephemeral });
+                }
+            }
+            return;
+        }
+        // Thread commands record the thread as a ticket, so they must not run in threads that are not tickets or forum posts.
+        if (!interaction.channel?.isThread() || !isSupportThread(interaction.channel)) {
             await interaction.reply({ content: 'This command can only be used inside a ticket thread.', flags: MessageFlags.Ephemeral });
             return;
         }
-        const owner = await interaction.channel.fetchOwner();
-        const threadOwnerId = owner?.id;
+        const thread = interaction.channel;
         const member = interaction.member as GuildMember;
-        const canClose = member.id === threadOwnerId || member.roles.cache.has(config.discord.supportRoleId);
-        if (!canClose) {
-            await interaction.reply({ content: 'You do not have permission to close this ticket.', flags: MessageFlags.Ephemeral });
+        const allowed = isSupportStaff(member) || (command.permission === 'owner_or_staff' && await isThreadOwner(thread, member));
+        if (!allowed) {
+            await interaction.reply({ content: `You do not have permission to use /${command.data.name} in this ticket.`, flags: MessageFlags.Ephemeral });
             return;
         }
-        await interaction.reply({ content: 'Closing this ticket...' });
-        await interaction.channel.send('This ticket has been closed and will be archived.');
-        await interaction.channel.setLocked(true);
-        await interaction.channel.setArchived(true);
+        try {
+            await command.execute(interaction, thread);
+        } catch (error) {
+            console.error(`- Failed to run /${command.data.name} in ${thread.name}:`, error);
+            if (!interaction.replied) {
+                await interaction.reply({ content: 'Sorry, something went wrong while running that command.', flags: MessageFlags.Ephemeral });
+            }
+        }
+    }
+}));
+// Records every message in a support thread, including the bot's own replies, into the ticket transcript.
+client.on(Events.MessageCreate, message => {
+    if (!message.inGuild() || !message.channel.isThread() || !isSupportThread(message.channel)) return;
+    try {
+        if (!message.author.bot) ensureTicket(message.channel, message.author);
+        recordTicketMessage(message);
+    } catch (error) {
+        console.error('- Failed to record ticket message:', error);
     }
 });
-client.on(Events.MessageCreate, async message => {
-    if (message.author.bot || !message.guild || !message.channel.isThread() || (message.channel.parentId !== config.discord.ticketChannelId && message.channel.parentId !== config.discord.forumChannelId)) return;
-    const intent = await determineUserIntent(message.content);
-    console.log(`📬 Message in private ticket ${message.channel.name}. Intent: ${intent}`);
-    switch (intent) {
-        case 'question':
-            await message.channel.sendTyping();
-            const messages = await message.channel.messages.fetch({ limit: 20 });
-            const conversation_history: OpenAI.Chat.ChatCompletionMessageParam[] = messages.reverse().map(msg => ({ role: msg.author.id === client.user?.id ? 'assistant' : 'user', content: msg.content }));
-            const reply_text = await generateAiReply(message.channel.name, conversation_history);
-            await message.channel.send(reply_text);
-            break;
-        case 'escalation_request':
-            await message.reply(`I understand. I've notified the support team (<@&${config.discord.supportRoleId}>) to look into this ticket personally.`);
-            break;
-        case 'follow_up':
-        case 'other':
-            const lastMessages = await message.channel.messages.fetch({ limit: 1, before: message.id });
-            const lastMessage = lastMessages.first();
-            if (lastMessage && lastMessage.author.id === client.user?.id && lastMessage.content.includes('escalate')) {
-                console.log(`- User confirmed escalation for ticket ${message.channel.name}.`);
-                await message.reply(`Understood. I have notified the support team (<@&${config.discord.supportRoleId}>) for you.`);
-            } else {
-                console.log(`- Ignoring message with intent '${intent}'.`);
-            }
-            break;
+// Keeps the transcript in step with edits, such as streamed AI answers filling in.
+client.on(Events.MessageUpdate, (_oldMessage, message) => {
+    if (message.partial || !message.inGuild() || !message.channel.isThread() || !isSupportThread(message.channel)) return;
+    try {
+        ticketStore.updateMessageContent(message.id, message.content);
+    } catch (error) {
+        console.error('- Failed to record message edit:', error);
     }
 });
-client.on(Events.ThreadCreate, async (thread) => {
-    if (thread.parentId !== config.discord.forumChannelId) return;
+client.on(Events.MessageCreate, message => withLogContext({ correlationId: message.channelId, guildId: message.guildId ?? undefined }, async () => {
+    if (message.author.bot || !message.inGuild() || !message.channel.isThread() || !isSupportThread(message.channel)) return;
+    if (ticketStore.get(message.channel.id)?.bot_muted) return;
+    try {
+        const fromStaff = !!message.member && isSupportStaff(message.member);
+        const incoming = { guildId: message.guild.id, channelId: message.channel.id, userId: message.author.id, userTag: message.author.username, content: message.content };
+        if (!fromStaff) {
+            const verdict = await checkIncomingMessage(incoming);
+            if (!verdict.allowed) {
+                if (verdict.notice) await message.reply(verdict.notice);
+                return;
+            }
+        }
+        const attachments = await readMessageAttachments(message);
+        if (!fromStaff && attachments.length > 0) {
+            const verdict = await checkAttachmentText(incoming, attachments);
+            if (!verdict.allowed) {
+                if (verdict.notice) await message.reply(verdict.notice);
+                return;
+            }
+        }
+        attachmentStore.record(message.id, message.channel.id, attachments);
+        const intent = await determineUserIntent(withAttachments(message.content, attachments));
+        console.log(`📬 Message in private ticket ${message.channel.name}. Intent: ${intent}`);
+        ticketStore.recordIntent(message.channel.id, message.id, intent);
+        const pendingOffer = ticketStore.get(message.channel.id)?.escalation_offer_message_id;
+        switch (intent) {
+            case 'question':
+                await message.channel.sendTyping();
+                // A new question moves the conversation on, so an earlier escalation offer no longer stands.
+                if (pendingOffer) ticketStore.clearEscalationOffer(message.channel.id);
+                // The whole ticket up to this message, from its transcript; generateAiReply summarizes what does not fit.
+                const transcript = ticketStore.getMessages(message.channel.id);
+                const position = transcript.findIndex(msg => msg.message_id === message.id);
+                const threadAttachments = attachmentStore.listByThread(message.channel.id);
+                const conversation_history: ChatMessage[] = position === -1
+                    ? [{ role: 'user', content: withAttachments(message.content, attachments) }]
+                    : transcript.slice(0, position + 1).map(msg => ({
+                        role: msg.author_type === 'bot' ? 'assistant' : 'user',
+                        content: withAttachments(msg.content, threadAttachments.get(msg.message_id) ?? []),
+                    }));
+                const access = await knowledgeAccessFor(message.channel);
+                const { reply: aiReply, message: answerMessage } = await streamAiReply(message.channel, onDraft => generateAiReply(message.channel.name, conversation_history, {
+                    namespace: guildSettingsStore.get(message.guild.id)?.kb_namespace,
+                    access,
+                    conversationId: message.channel.id,
+                    retrievalQuery: attachmentQuery(message.content, attachments),
+                    style: replyStyleFor(message.guild.id, message.channel.parentId),
+                    onDraft,
+                }), 'The bot was not confident it could answer correctly.');
+                metrics.replies.inc({ channel: 'ticket', outcome: aiReply.escalate ? 'escalated' : 'answered' });
+                feedbackStore.recordAnswer(answerMessage.id, message.channel.id, message.content, aiReply);
+                if (aiReply.offersEscalation && !aiReply.escalate) ticketStore.offerEscalation(message.channel.id, answerMessage.id);
+                break;
+            case 'escalation_request':
+                await message.reply(`I understand. ${await escalateTicket(message.channel, 'The user asked for a human.')}`);
+                break;
+            case 'follow_up':
+            case 'other':
+                if (pendingOffer && DECLINE_PATTERN.test(message.content)) {
+                    console.log(`- User declined escalation for ticket ${message.channel.name}.`);
+                    ticketStore.clearEscalationOffer(message.channel.id);
+                    await message.reply('No problem. Feel free to ask another question, or press "Talk to a human" if you change your mind.');
+                } else if (pendingOffer && ACCEPT_PATTERN.test(message.content)) {
+                    console.log(`- User accepted the escalation offer in ticket ${message.channel.name}.`);
+                    await message.reply(`Understood. ${await escalateTicket(message.channel, 'The user accepted the offer to escalate after the bot could not answer from the documentation.')}`);
+                } else {
+                    console.log(`- Ignoring message with intent '${intent}'.`);
+                }
+                break;
+        }
+    } catch (error) {
+        console.error(`- Error processing message in ticket ${message.channel.name}:`, error);
+        await message.channel.send('Sorry, something went wrong while handling your message. Please try again in a moment.')
+            .catch(sendError => console.error('- Could not post the failure notice:', sendError));
+    }
+}));
+client.on(Events.ThreadCreate, thread => withLogContext({ correlationId: thread.id, guildId: thread.guildId }, async () => {
+    if (!isForumPost(thread)) return;
     console.log(`📬 New post created in community support forum: "${thread.name}"`);
     try {
         const starterMessage = await thread.fetchStarterMessage();
@@ -165,19 +490,49 @@ client.on(Events.ThreadCreate, async (thread) => {
             console.log('- Could not fetch starter message.');
             return;
         }
+        ensureTicket(thread, starterMessage.author);
+        const incoming = { guildId: thread.guildId, channelId: thread.id, userId: starterMessage.author.id, userTag: starterMessage.author.username, content: starterMessage.content };
+        const verdict = await checkIncomingMessage(incoming);
+        if (!verdict.allowed) {
+            if (verdict.notice) await thread.send(verdict.notice);
+            return;
+        }
+        const attachments = await readMessageAttachments(starterMessage);
+        const attachmentVerdict = await checkAttachmentText(incoming, attachments);
+        if (!attachmentVerdict.allowed) {
+            if (attachmentVerdict.notice) await thread.send(attachmentVerdict.notice);
+            return;
+        }
+        attachmentStore.record(starterMessage.id, thread.id, attachments);
         await thread.send(`Thanks for your question, ${starterMessage.author.toString()}! I'm looking into it now...`);
-        const intent = await determineUserIntent(starterMessage.content);
+        const question = withAttachments(starterMessage.content, attachments);
+        await autoTagForumPost(thread, question).catch(error => console.warn('- Could not tag the forum post:', error.message));
+        const related = await findRelatedThreads(thread.guildId, `${thread.name}\n\n${question}`, thread.id);
+        if (related.length > 0) await thread.send({ content: relatedThreadsMessage(related), allowedMentions: { parse: [] } });
+        await indexForumThread({ threadId: thread.id, guildId: thread.guildId, title: thread.name, question })
+            .catch(error => console.warn('- Could not add the post to the forum index:', error.message));
+        const intent = await determineUserIntent(question);
         console.log(`- Forum post intent: ${intent}`);
+        ticketStore.recordIntent(thread.id, starterMessage.id, intent);
         if (intent === 'question') {
-            const conversation_history = [{ role: 'user' as const, content: starterMessage.content }];
-            const reply_text = await generateAiReply(thread.name, conversation_history);
-            await thread.send(reply_text);
+            const conversation_history = [{ role: 'user' as const, content: question }];
+            const { reply: aiReply, message: answerMessage } = await streamAiReply(thread, onDraft => generateAiReply(thread.name, conversation_history, {
+                namespace: guildSettingsStore.get(thread.guildId)?.kb_namespace,
+                retrievalQuery: attachmentQuery(starterMessage.content, attachments),
+                style: replyStyleFor(thread.guildId, thread.parentId),
+                onDraft,
+            }), 'The bot was not confident it could answer correctly.');
+            metrics.replies.inc({ channel: 'forum', outcome: aiReply.escalate ? 'escalated' : 'answered' });
+            feedbackStore.recordAnswer(answerMessage.id, thread.id, starterMessage.content, aiReply);
+            if (aiReply.offersEscalation && !aiReply.escalate) ticketStore.offerEscalation(thread.id, answerMessage.id);
         } else {
-            await thread.send(`I've noted your post. A member of the <@&${config.discord.supportRoleId}> will see it shortly.`);
+            await thread.send(`I've noted your post. A member of the ${supportRoleMention(thread.guildId)} will see it shortly.`);
         }
     } catch (error) {
         console.error(`- Error processing forum post ${thread.id}:`, error);
     }
-});
+}));
 
-client.login(config.discord.token);
\ No newline at end of file
+await checkKnowledgeTables();
+client.login(config.discord.token);
+startApiServer({ discordStatus: () => ({ connected: client.isReady(), ping: client.ws.ping }) });
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { config } from './config.js';
+import { createDiscourseClient } from './lib/discourse-client.js';
+import { createDiscourseWorker } from './lib/discourse-worker.js';
+import { startApiServer } from './lib/http-api.js';
+import { checkKnowledgeTables } from './lib/knowledge-base.js';
+import { installConsoleCapture } from './lib/logger.js';
+
+installConsoleCapture();
+
+const worker = createDiscourseWorker(createDiscourseClient(config.discourse));
+
+async function pollLoop(): Promise<void> {
+    try {
+        await worker.pollOnce();
+    } catch (error) {
+        console.error('❌ Failed to poll Discourse for new posts:', (error as Error).message);
+    }
+    setTimeout(pollLoop, config.bot.polling_interval_seconds * 1000);
+}
+
+await checkKnowledgeTables();
+console.log(`🚀 Discourse worker started for ${config.discourse.baseUrl} as @${config.discourse.apiUsername} (polling every ${config.bot.polling_interval_seconds}s).`);
+pollLoop();
+startApiServer({}, config.api.discoursePort);
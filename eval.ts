@@ -0,0 +1,97 @@
+// eval.ts
+import { parseArgs } from 'util';
+import { config } from './config.js';
+import { assertValidNamespace, DEFAULT_NAMESPACE } from './lib/kb-namespaces.js';
+import { diffMetrics, diffQuestions, EvalMetrics, EvalRun, evalRunStore, runEvaluation } from './lib/evaluation.js';
+
+const USAGE = `Usage: npm run eval -- [options]
+
+Runs the golden questions through the bot's retrieval and answering, prints recall@k, MRR, citation accuracy,
+refusal rates and key-fact recall, and compares them with the previous comparable run.
+
+Options:
+  --dataset <file>               Golden questions, one JSON object per line (default ${config.paths.evalDataset}).
+  --namespace <name>             Knowledge base namespace to answer from (default "${DEFAULT_NAMESPACE}").
+  --k <n>                        Passages retrieved per question for recall@k and MRR (default 5).
+  --retrieval-only               Only evaluate retrieval; no answers are generated.
+  --baseline <file>              Compare with this saved run instead of the previous comparable one.
+  --no-save                      Do not keep this run in ${config.paths.evalRuns}.
+
+Set LLM_PROVIDER=fake (or point LLM_PROVIDER=openai-compatible at a local server) to run without the OpenAI API.`;
+
+const { values: flags } = parseArgs({
+    options: {
+        dataset: { type: 'string', default: config.paths.evalDataset },
+        namespace: { type: 'string', default: DEFAULT_NAMESPACE },
+        k: { type: 'string', default: '5' },
+        'retrieval-only': { type: 'boolean' },
+        baseline: { type: 'string' },
+        'no-save': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+    },
+});
+
+const METRIC_LABELS: Record<keyof EvalMetrics, string> = {
+    recallAtK: 'Recall@k',
+    mrr: 'MRR',
+    citationAccuracy: 'Citation accuracy',
+    refusalRate: 'Refusal rate (answerable)',
+    correctRefusalRate: 'Correct refusals (unanswerable)',
+    keyFactRecall: 'Key-fact recall',
+};
+
+// Every metric is better when higher, except refusing questions the knowledge base does answer.
+const LOWER_IS_BETTER = new Set<keyof EvalMetrics>(['refusalRate']);
+
+const formatMetric = (value: number | null) => value === null ? 'n/a' : value.toFixed(3);
+
+function printReport(run: EvalRun, baseline: EvalRun | undefined) {
+    console.log(`\n📊 ${run.results.length} questions · namespace "${run.namespace}" · k=${run.k} · ${run.provider} (${run.chatModel}, ${run.embeddingModel})${run.promptVersion ? ` · ${run.promptVersion}` : ''}`);
+    if (baseline) console.log(`- Compared with the run of ${baseline.startedAt}${baseline.promptVersion ? ` (${baseline.promptVersion})` : ''}`);
+
+    const changes = baseline ? diffMetrics(baseline, run) : [];
+    for (const metric of Object.keys(METRIC_LABELS) as (keyof EvalMetrics)[]) {
+        const value = run.metrics[metric];
+        let delta = '';
+        const change = changes.find(c => c.metric === metric);
+        if (change && change.before !== null && value !== null && change.before !== value) {
+            const improved = (value > change.before) !== LOWER_IS_BETTER.has(metric);
+            delta = `  ${improved ? '▲' : '▼'} ${value > change.before ? '+' : ''}${(value - change.before).toFixed(3)} (was ${formatMetric(change.before)})`;
+        }
+        console.log(`${METRIC_LABELS[metric].padEnd(34)}${formatMetric(value).padStart(6)}${delta}`);
+    }
+
+    if (!baseline) return;
+    const questionChanges = diffQuestions(baseline, run);
+    if (questionChanges.size === 0) {
+        console.log('\nNo question changed since the previous run.');
+        return;
+    }
+    console.log(`\n🔀 ${questionChanges.size} question(s) changed:`);
+    for (const [id, notes] of questionChanges) {
+        console.log(`- ${id}: ${notes.join('; ')}`);
+    }
+}
+
+async function main() {
+    if (flags.help) {
+        console.log(USAGE);
+        return;
+    }
+    assertValidNamespace(flags.namespace!);
+    const k = Number(flags.k);
+    if (!Number.isInteger(k) || k < 1) throw new Error(`--k must be a positive whole number, got "${flags.k}".`);
+
+    const run = await runEvaluation(flags.dataset!, { namespace: flags.namespace!, k, retrievalOnly: !!flags['retrieval-only'] });
+    const baseline = flags.baseline ? evalRunStore.load(flags.baseline) : evalRunStore.findPrevious(run);
+    printReport(run, baseline);
+
+    if (!flags['no-save']) {
+        console.log(`\n💾 Saved this run to ${evalRunStore.save(run)}`);
+    }
+}
+
+main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,349 @@
+// kb.ts
+import { parseArgs } from 'util';
+import inquirer, { DistinctQuestion } from 'inquirer';
+import { config } from './config.js';
+import { llm } from './lib/llm.js';
+import { globToRegExp } from './lib/utils.js';
+import { vectorStore } from './lib/vector-store.js';
+import { getSourceChunks, listStoredSources, manifest, openKnowledgeTable, removeSource, setSourceAudience } from './lib/knowledge-base.js';
+import { ingestDocs, ingestPage } from './lib/ingestion.js';
+import { crawlSite } from './lib/crawler.js';
+import { assertValidNamespace, DEFAULT_NAMESPACE } from './lib/kb-namespaces.js';
+import { accessOfAudience, describeAudience, parseAudience, SourceAudience, STAFF_ACCESS } from './lib/kb-audiences.js';
+
+const USAGE = `Usage: npm run kb -- <command> [options]
+
+Commands:
+  list [pattern]                 List sources with their chunk counts.
+  show <source>                  Show a source's details and chunks. Add --full for the whole text.
+  remove <file|url|glob>         Remove matching sources. Add --yes to skip the confirmation.
+  stats                          Summarise the knowledge base.
+  search "<query>" [--k 5] [--audience <audience>]
+                                 Run the bot's retrieval for a query and print what it finds. With --audience, only
+                                 search what that audience may read; by default every source is searched.
+  reindex [--force]              Re-ingest the docs folder and re-fetch every web source.
+  ingest docs [--force] [--audience <audience>]
+                                 Ingest the files in the docs folder: knowledge_base/, or knowledge_base/<namespace>/.
+  ingest <url> [--force] [--audience <audience>]
+                                 Scrape a single page.
+  ingest <url> --crawl [crawl options] [--force] [--audience <audience>]
+                                 Crawl a site from <url>. An interrupted crawl of the same URL is resumed.
+  audience <file|url|glob> <audience>
+                                 Set who may read matching sources, without re-ingesting them. Name a source that is
+                                 not ingested yet by its full ID (doc:runbook.md) to set its audience beforehand.
+  namespaces                     List the knowledge base namespaces and their source counts.
+
+Every command works on one namespace:
+  --namespace <name>             The namespace to use (default "${DEFAULT_NAMESPACE}"). Discord servers pick theirs with /setup.
+
+Crawl options:
+  --max-pages <n>                Pages to fetch (default 10).
+  --max-depth <n>                Links to follow away from the start page (default ${config.crawler.maxDepth}).
+  --include <glob>               Only crawl matching URLs. Repeat for several globs.
+  --exclude <glob>               Never crawl matching URLs. Repeat for several globs.
+  --concurrency <n>              Pages fetched at once (default ${config.crawler.concurrency}).
+  --delay <ms>                   Minimum time between requests (default ${config.crawler.delayMs}).
+  --static                       Fetch raw HTML instead of rendering pages in a headless browser.
+  --skip-sitemap                 Do not seed the crawl from the site's sitemaps.
+  --fresh                        Start over instead of resuming an interrupted crawl.
+
+Audiences say who may read a source: "public" (everyone; the default for new sources), "staff" (the support team
+only, through /ask) or "role:<role ID>,role:<role ID>" (private tickets of members of those roles, and the support
+team). --audience applies to every source an ingestion run covers; sources keep their audience otherwise.
+
+Sources can be named by their ID (doc:guide.md, web:https://...), by file name or URL, or by a glob such as
+"doc:*" or "https://example.com/blog/*". --force re-ingests sources even if they have not changed.`;
+
+const { values: flags, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        yes: { type: 'boolean', short: 'y' },
+        force: { type: 'boolean' },
+        full: { type: 'boolean' },
+        crawl: { type: 'boolean' },
+        'max-pages': { type: 'string' },
+        'max-depth': { type: 'string' },
+        include: { type: 'string', multiple: true },
+        exclude: { type: 'string', multiple: true },
+        concurrency: { type: 'string' },
+        delay: { type: 'string' },
+        static: { type: 'boolean' },
+        'skip-sitemap': { type: 'boolean' },
+        fresh: { type: 'boolean' },
+        k: { type: 'string' },
+        namespace: { type: 'string', default: DEFAULT_NAMESPACE },
+        audience: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+    },
+});
+
+const namespace = flags.namespace!;
+// Read in main(), so that an invalid value is reported like any other error.
+let audience: SourceAudience | undefined;
+
+/**
+ * Matches source IDs against a glob, where `*` matches any run of characters and `?` a single one.
+ * The pattern is tried against the full ID and against the ID without its `doc:`/`web:` prefix,
+ * so a plain file name or URL works too.
+ */
+function matchSources(pattern: string, sourceIds: string[]): string[] {
+    const regex = globToRegExp(pattern);
+    return sourceIds.filter(id => regex.test(id) || regex.test(id.slice(id.indexOf(':') + 1)));
+}
+
+// An inquirer question of any type, without the answer name, which promptIfInteractive sets.
+type UnnamedQuestion<Q> = Q extends unknown ? Omit<Q, 'name'> : never;
+
+/**
+ * Fills in an argument that was not given on the command line by prompting for it, but only when a person is
+ * at the terminal; from cron or CI a missing argument is an error.
+ */
+async function promptIfInteractive<T>(name: string, question: UnnamedQuestion<DistinctQuestion<{ value: T }>>): Promise<T> {
+    if (!process.stdin.isTTY) {
+        throw new Error(`Missing ${name}. Run "npm run kb -- --help" for usage.`);
+    }
+    const answers = await inquirer.prompt<{ value: T }>([{ ...question, name: 'value' }]);
+    return answers.value;
+}
+
+async function listCommand(pattern?: string) {
+    const table = await openKnowledgeTable(namespace);
+    const stored = await listStoredSources(table);
+    const sources = pattern ? stored.filter(s => matchSources(pattern, [s.sourceId]).length > 0) : stored;
+
+    for (const source of sources) {
+        const ingestedAt = manifest.get(namespace, source.sourceId)?.ingested_at ?? 'not in manifest';
+        console.log(`${source.sourceId}\n    ${source.chunkCount} chunks · ${source.title} · ${describeAudience(source.audience)} · ingested ${ingestedAt}`);
+    }
+    console.log(`\n📚 ${sources.length} sources, ${sources.reduce((sum, s) => sum + s.chunkCount, 0)} chunks.`);
+}
+
+async function showCommand(pattern: string) {
+    const table = await openKnowledgeTable(namespace);
+    const stored = await listStoredSources(table);
+    const matches = matchSources(pattern, stored.map(s => s.sourceId));
+    if (matches.length !== 1) {
+        console.error(matches.length === 0
+            ? `❌ No source matches "${pattern}".`
+            : `❌ "${pattern}" matches ${matches.length} sources, please be more specific:\n${matches.map(id => `    ${id}`).join('\n')}`);
+        process.exit(1);
+    }
+
+    const source = stored.find(s => s.sourceId === matches[0])!;
+    const entry = manifest.get(namespace, source.sourceId);
+    console.log(`${source.sourceId}`);
+    console.log(`- Title: ${source.title}`);
+    console.log(`- URL: ${source.url}`);
+    console.log(`- Chunks: ${source.chunkCount}`);
+    console.log(`- Audience: ${describeAudience(source.audience)}`);
+    console.log(`- Ingested: ${entry ? `${entry.ingested_at} (hash ${entry.content_hash.slice(0, 12)})` : 'not in manifest; re-ingest it to track changes'}`);
+
+    for (const chunk of await getSourceChunks(table, source.sourceId)) {
+        const location = [chunk.page ? `p. ${chunk.page}` : '', chunk.section ? `§ ${chunk.section}` : ''].filter(Boolean).join(' ');
+        const text = flags.full ? chunk.content : `${chunk.content.slice(0, 200).replace(/\s+/g, ' ')}${chunk.content.length > 200 ? '…' : ''}`;
+        console.log(`\n[${chunk.id}]${location ? ` ${location}` : ''} (${chunk.content.length} chars)\n${text}`);
+    }
+}
+
+async function removeCommand(pattern: string) {
+    const table = await openKnowledgeTable(namespace);
+    const stored = (await listStoredSources(table)).map(s => s.sourceId);
+    // Manifest entries without stored chunks are matched too, so they can be cleaned up as well.
+    const known = [...new Set([...stored, ...manifest.list(namespace).map(entry => entry.source_id)])];
+    const matches = matchSources(pattern, known);
+    if (matches.length === 0) {
+        console.log(`No source matches "${pattern}". Nothing to remove.`);
+        return;
+    }
+
+    console.log(`The following ${matches.length} source(s) will be removed:\n${matches.map(id => `    ${id}`).join('\n')}`);
+    if (!flags.yes && !await promptIfInteractive<boolean>('--yes', { type: 'confirm', message: 'Remove them?', default: false })) {
+        console.log('Cancelled.');
+        return;
+    }
+
+    const countBefore = await table.countRows();
+    for (const sourceId of matches) {
+        await removeSource(table, sourceId);
+    }
+    const countAfter = await table.countRows();
+    console.log(`🏁 Removal complete. ${countBefore - countAfter} chunks from ${matches.length} source(s) were removed; ${countAfter} remain.`);
+}
+
+async function statsCommand() {
+    const table = await openKnowledgeTable(namespace);
+    const stored = await listStoredSources(table);
+    const entries = manifest.list(namespace);
+    const storedIds = new Set(stored.map(s => s.sourceId));
+
+    const byType = new Map<string, { sources: number; chunks: number }>();
+    const byAudience = new Map<string, number>();
+    for (const source of stored) {
+        byAudience.set(source.audience, (byAudience.get(source.audience) ?? 0) + 1);
+        const type = source.sourceId.split(':')[0];
+        const totals = byType.get(type) ?? { sources: 0, chunks: 0 };
+        totals.sources++;
+        totals.chunks += source.chunkCount;
+        byType.set(type, totals);
+    }
+    const untracked = stored.filter(s => !manifest.get(namespace, s.sourceId));
+    const orphaned = entries.filter(entry => !storedIds.has(entry.source_id));
+    const ingestedAt = entries.map(entry => entry.ingested_at).sort();
+    const hasFullTextIndex = (await table.listIndices()).some(index => index.columns.includes('content'));
+
+    console.log(`📊 Knowledge base "${namespace}": ${stored.length} sources, ${await table.countRows()} chunks (table version ${await table.version()}).`);
+    for (const [type, totals] of byType) {
+        console.log(`- ${type}: ${totals.sources} sources, ${totals.chunks} chunks`);
+    }
+    console.log(`- Audiences: ${[...byAudience].map(([name, sources]) => `${sources} ${describeAudience(name)}`).join(', ') || 'none'}`);
+    console.log(`- Embeddings: ${llm.name} / ${llm.embeddingModel} (${llm.embeddingDimensions} dimensions)`);
+    console.log(`- Full-text index: ${hasFullTextIndex ? 'yes' : 'no'}`);
+    if (ingestedAt.length > 0) {
+        console.log(`- Oldest ingestion: ${ingestedAt[0]}; newest: ${ingestedAt[ingestedAt.length - 1]}`);
+    }
+    if (untracked.length > 0) {
+        console.log(`- ⚠️ ${untracked.length} source(s) are not in the manifest and will be re-ingested from scratch next time.`);
+    }
+    if (orphaned.length > 0) {
+        console.log(`- ⚠️ ${orphaned.length} manifest entries have no chunks stored: ${orphaned.map(entry => entry.source_id).join(', ')}`);
+    }
+}
+
+async function searchCommand(query: string) {
+    const k = Number(flags.k ?? 5);
+    const docs = await vectorStore.similaritySearch(query, k, namespace, audience ? accessOfAudience(audience) : STAFF_ACCESS);
+    if (docs.length === 0) {
+        console.log('No results.');
+        return;
+    }
+    docs.forEach((doc, index) => {
+        const location = [doc.page ? `p. ${doc.page}` : '', doc.section ? `§ ${doc.section}` : ''].filter(Boolean).join(' ');
+        const preview = doc.content.slice(0, 300).replace(/\s+/g, ' ');
+        const belowThreshold = doc.score < config.retrieval.minScore ? ', below RETRIEVAL_MIN_SCORE' : '';
+        console.log(`\n${index + 1}. ${doc.title}${location ? ` ${location}` : ''} (score ${doc.score.toFixed(3)}${belowThreshold}, ${describeAudience(doc.audience)})\n   ${doc.id}\n   ${doc.url}${doc.anchor ? `#${doc.anchor}` : ''}\n   ${preview}${doc.content.length > 300 ? '…' : ''}`);
+    });
+}
+
+async function reindexCommand() {
+    const options = { force: flags.force, namespace };
+    await ingestDocs(options);
+
+    const table = await openKnowledgeTable(namespace);
+    const webSources = (await listStoredSources(table)).filter(s => s.sourceId.startsWith('web:'));
+    let failed = 0;
+    for (const source of webSources) {
+        try {
+            await ingestPage(table, source.sourceId.slice('web:'.length), options);
+        } catch (error) {
+            console.error(`- ❌ Failed to re-fetch ${source.url}:`, (error as Error).message);
+            failed++;
+        }
+    }
+    console.log(`\n🏁 Reindex complete. Re-fetched ${webSources.length - failed} of ${webSources.length} web sources.`);
+    if (failed > 0) process.exitCode = 1;
+}
+
+async function ingestCommand(target?: string) {
+    const options = { force: flags.force, namespace, audience };
+    if (target === 'docs') {
+        await ingestDocs(options);
+        return;
+    }
+
+    const url = target ?? await promptIfInteractive<string>('URL', {
+        type: 'input',
+        message: flags.crawl ? 'Enter the starting URL for the documentation site:' : 'Please enter the full URL of the documentation page you want to scrape:',
+        validate: (input: string) => input.startsWith('http'),
+    });
+    if (!url.startsWith('http')) {
+        throw new Error(`"${url}" is not a URL. Use "ingest docs" for the knowledge_base folder.`);
+    }
+
+    if (flags.crawl) {
+        const maxPages = flags['max-pages'] ? Number(flags['max-pages'])
+            : target ? 10 : await promptIfInteractive<number>('--max-pages', { type: 'number', message: 'How many pages should I scrape at most?', default: 10 });
+        await crawlSite(url, {
+            ...options,
+            maxPages,
+            maxDepth: flags['max-depth'] ? Number(flags['max-depth']) : config.crawler.maxDepth,
+            include: flags.include ?? [],
+            exclude: flags.exclude ?? [],
+            concurrency: flags.concurrency ? Number(flags.concurrency) : config.crawler.concurrency,
+            delayMs: flags.delay ? Number(flags.delay) : config.crawler.delayMs,
+            mode: flags.static ? 'static' : config.crawler.mode,
+            useSitemap: !flags['skip-sitemap'],
+            fresh: !!flags.fresh,
+        });
+    } else {
+        await ingestPage(await openKnowledgeTable(namespace), url, options);
+    }
+}
+
+async function audienceCommand(pattern: string, value: string) {
+    const newAudience = parseAudience(value);
+    const table = await openKnowledgeTable(namespace);
+    const stored = (await listStoredSources(table)).map(s => s.sourceId);
+    const known = [...new Set([...stored, ...manifest.list(namespace).map(entry => entry.source_id)])];
+    let matches = matchSources(pattern, known);
+    if (matches.length === 0 && /^(doc|web|ticket):[^*?]+$/.test(pattern)) {
+        // A source that is not ingested yet, e.g. a runbook about to be added to the docs folder, so it is never public.
+        matches = [pattern];
+    } else if (matches.length === 0) {
+        console.log(`No source matches "${pattern}". Name a source that is not ingested yet by its full ID, e.g. doc:runbook.md.`);
+        return;
+    }
+
+    let changed = 0;
+    for (const sourceId of matches) {
+        if (await setSourceAudience(table, sourceId, newAudience)) changed++;
+    }
+    console.log(`🔒 ${changed} of ${matches.length} matching source(s) changed to ${describeAudience(newAudience)}; the rest already were.`);
+}
+
+function namespacesCommand() {
+    const namespaces = manifest.namespaces();
+    if (namespaces.length === 0) {
+        console.log('No sources have been ingested yet.');
+        return;
+    }
+    for (const entry of namespaces) {
+        console.log(`${entry.namespace}\n    ${entry.sources} sources`);
+    }
+}
+
+async function main() {
+    assertValidNamespace(namespace);
+    if (flags.audience !== undefined) audience = parseAudience(flags.audience);
+
+    const [command, argument] = positionals;
+    const requireArgument = (name: string) => {
+        if (!argument) throw new Error(`"${command}" needs a ${name}. Run "npm run kb -- --help" for usage.`);
+        return argument;
+    };
+
+    switch (flags.help ? 'help' : command) {
+        case 'list': return listCommand(argument);
+        case 'show': return showCommand(requireArgument('source'));
+        case 'remove': return removeCommand(requireArgument('file, URL or glob'));
+        case 'stats': return statsCommand();
+        case 'search': return searchCommand(positionals.slice(1).join(' ') || requireArgument('query'));
+        case 'reindex': return reindexCommand();
+        case 'ingest': return ingestCommand(argument);
+        case 'audience':
+            if (!positionals[2]) throw new Error('"audience" needs a file, URL or glob and an audience. Run "npm run kb -- --help" for usage.');
+            return audienceCommand(argument, positionals[2]);
+        case 'namespaces': return namespacesCommand();
+        case 'help':
+        case undefined:
+            console.log(USAGE);
+            return;
+        default:
+            console.error(`Unknown command "${command}".\n\n${USAGE}`);
+            process.exit(1);
+    }
+}
+
+main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
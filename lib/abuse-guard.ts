@@ -0,0 +1,213 @@
+import { config } from '../config.js';
+import { llm } from './llm.js';
+import { getStateDb } from './state-db.js';
+
+/** Why a message was not passed on to the model. */
+export type BlockReason = 'user_rate_limit' | 'channel_rate_limit' | 'too_long' | 'prompt_injection' | 'moderation';
+
+export interface BlockedEvent {
+  id: number;
+  guild_id: string;
+  channel_id: string;
+  user_id: string;
+  user_tag: string;
+  reason: BlockReason;
+  /** e.g. the matched injection pattern or the moderation categories. */
+  detail: string | null;
+  /** The start of the blocked message. */
+  content: string;
+  created_at: string;
+}
+
+export interface IncomingMessage {
+  guildId: string;
+  channelId: string;
+  userId: string;
+  userTag: string;
+  content: string;
+}
+
+/**
+ * The outcome of `checkIncomingMessage`. A blocked message comes with the reply to post, or null when the user was
+ * already told to slow down and should not be answered at all.
+ */
+export type GuardVerdict =
+  | { allowed: true }
+  | { allowed: false; reason: BlockReason; notice: string | null };
+
+// Only the start of a blocked message is kept, which is enough to review it.
+const MAX_STORED_CONTENT = 500;
+
+/**
+ * Phrases typical of attempts to make the model drop its instructions, reveal them, or treat user text as part of
+ * the prompt. Ordinary support questions almost never contain them.
+ */
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override)\b.{0,40}\b(previous|prior|above|earlier|system|your)\b.{0,20}\b(instructions?|prompts?|rules|directions)\b/i,
+  /\b(reveal|print|show|repeat|output|leak)\b.{0,30}\b(system prompt|initial prompt|your (instructions|prompt|rules))\b/i,
+  /\byou are (now|no longer)\b.{0,40}\b(assistant|bot|ai|model|unrestricted|free)\b/i,
+  /\b(developer|jailbreak|god|dan) mode\b/i,
+  /^\s*(system|assistant)\s*:/im,
+  /---\s*(end of )?knowledge base\s*---/i,
+];
+
+/**
+ * Creates an in-memory sliding-window limiter that allows `max` hits per key within `windowMs`.
+ */
+function createRateLimiter(max: number, windowMs: number) {
+  const hits = new Map<string, number[]>();
+
+  return {
+    /**
+     * Counts a hit for the key.
+     * @returns 0 if the hit is within the limit, or the milliseconds until the key may be hit again.
+     */
+    hit: (key: string, now = Date.now()): number => {
+      const recent = (hits.get(key) ?? []).filter(time => now - time < windowMs);
+      if (recent.length >= max) {
+        hits.set(key, recent);
+        return windowMs - (now - recent[0]);
+      }
+      recent.push(now);
+      hits.set(key, recent);
+      // Forget idle keys now and then, so the map does not grow with every user ever seen.
+      if (hits.size > 1000) {
+        for (const [k, times] of hits) {
+          if (times.every(time => now - time >= windowMs)) hits.delete(k);
+        }
+      }
+      return 0;
+    },
+  };
+}
+
+const userLimiter = createRateLimiter(config.abuse.userMessages, config.abuse.userWindowSeconds * 1000);
+const channelLimiter = createRateLimiter(config.abuse.channelMessages, config.abuse.channelWindowSeconds * 1000);
+
+// When each user was last told to slow down, so a flood of messages gets a single cooldown notice.
+const cooldownNotified = new Map<string, number>();
+
+/**
+ * Persistent record of messages the bot refused to process, stored in the state DB for staff review.
+ */
+export const blockedEventStore = {
+  record: (message: IncomingMessage, reason: BlockReason, detail: string | null): void => {
+    getStateDb().prepare(`
+      INSERT INTO blocked_events (guild_id, channel_id, user_id, user_tag, reason, detail, content) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(message.guildId, message.channelId, message.userId, message.userTag, reason, detail, message.content.slice(0, MAX_STORED_CONTENT));
+  },
+
+  /**
+   * Lists the most recent blocked events in a server, newest first.
+   */
+  listRecent: (guildId: string, limit: number): BlockedEvent[] =>
+    getStateDb().prepare('SELECT * FROM blocked_events WHERE guild_id = ? ORDER BY id DESC LIMIT ?').all(guildId, limit) as BlockedEvent[],
+};
+
+/**
+ * Finds the first prompt-injection pattern the text matches.
+ * @returns The matched text, or null if the text looks harmless.
+ */
+export function detectPromptInjection(text: string): string | null {
+  for (const pattern of INJECTION_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) return match[0].trim();
+  }
+  return null;
+}
+
+function blockMessage(message: IncomingMessage, reason: BlockReason, detail: string | null, notice: string | null): GuardVerdict {
+  console.log(`- 🛡️ Blocked a message from ${message.userTag} (${reason}${detail ? `: ${detail}` : ''}).`);
+  blockedEventStore.record(message, reason, detail);
+  return { allowed: false, reason, notice };
+}
+
+/**
+ * Decides whether a message may be passed on to the model. Checks run cheapest first: the per-user and per-channel
+ * rate limits, the length cap, the prompt-injection heuristic, and finally the provider's moderation endpoint.
+ * Blocked messages are recorded in `blocked_events`.
+ */
+export async function checkIncomingMessage(message: IncomingMessage): Promise<GuardVerdict> {
+  const block = (reason: BlockReason, detail: string | null, notice: string | null) => blockMessage(message, reason, detail, notice);
+  const cooldownNotice = (retryAfterMs: number): string | null => {
+    const now = Date.now();
+    const lastNotice = cooldownNotified.get(message.userId);
+    if (lastNotice !== undefined && now - lastNotice < retryAfterMs) return null;
+    cooldownNotified.set(message.userId, now);
+    return `You're sending messages faster than I can answer them. Please wait ${Math.ceil(retryAfterMs / 1000)} seconds before asking again.`;
+  };
+
+  const userRetryAfter = userLimiter.hit(message.userId);
+  if (userRetryAfter > 0) return block('user_rate_limit', null, cooldownNotice(userRetryAfter));
+
+  const channelRetryAfter = channelLimiter.hit(message.channelId);
+  if (channelRetryAfter > 0) return block('channel_rate_limit', null, cooldownNotice(channelRetryAfter));
+
+  if (message.content.length > config.abuse.maxMessageLength) {
+    return block('too_long', `${message.content.length} characters`,
+      `That message is too long for me to process (${message.content.length} characters, the limit is ${config.abuse.maxMessageLength}). Could you shorten it to the essentials?`);
+  }
+
+  return checkText(message, message.content, null);
+}
+
+/**
+ * Runs the prompt-injection heuristic and the moderation endpoint over a text the user sent.
+ * @param source Where in the message the text came from, e.g. a file name, for the blocked-event record.
+ */
+async function checkText(message: IncomingMessage, text: string, source: string | null): Promise<GuardVerdict> {
+  const detail = (found: string | null) => source ? `in ${source}${found ? `: ${found}` : ''}` : found;
+
+  if (config.abuse.promptInjectionCheck) {
+    const injection = detectPromptInjection(text);
+    if (injection) {
+      return blockMessage(message, 'prompt_injection', detail(injection),
+        "I can only help with questions about our product, and I can't change how I work. Please rephrase your question.");
+    }
+  }
+
+  if (config.abuse.moderation && llm.moderate) {
+    try {
+      const moderation = await llm.moderate(text);
+      if (moderation.flagged) {
+        return blockMessage(message, 'moderation', detail(moderation.categories.join(', ') || null),
+          "I can't respond to that message. Please keep the conversation respectful and on topic.");
+      }
+    } catch (error) {
+      // A moderation outage should not take the bot down with it.
+      console.error('- Moderation check failed, letting the message through:', error);
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Screens the earlier messages sent along with a new one, e.g. the history of an HTTP API request, the way
+ * `checkIncomingMessage` screens the new message: a forged history can carry an injection attempt just as well.
+ * Rate limits do not apply here.
+ */
+export async function checkEarlierMessages(message: IncomingMessage, earlier: string[]): Promise<GuardVerdict> {
+  for (const [index, text] of earlier.entries()) {
+    const source = `earlier message ${index + 1}`;
+    if (text.length > config.abuse.maxMessageLength) {
+      return blockMessage(message, 'too_long', `${source}: ${text.length} characters`,
+        `One of the earlier messages is too long for me to process (${text.length} characters, the limit is ${config.abuse.maxMessageLength}).`);
+    }
+    const verdict = await checkText(message, text, source);
+    if (!verdict.allowed) return verdict;
+  }
+  return { allowed: true };
+}
+
+/**
+ * Screens the text read from a message's attachments the way `checkIncomingMessage` screens the message itself,
+ * as a file can carry an injection attempt just as well. Rate limits and the length cap do not apply here.
+ */
+export async function checkAttachmentText(message: IncomingMessage, attachments: { name: string; text: string }[]): Promise<GuardVerdict> {
+  for (const attachment of attachments) {
+    const verdict = await checkText(message, attachment.text, attachment.name);
+    if (!verdict.allowed) return verdict;
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,272 @@
+import { vectorStore, RetrievedDocument } from './vector-store.js';
+import { llm, ChatMessage } from './llm.js';
+import { config } from '../config.js';
+import { ESCALATION_OFFER_MARKER, prompts, REPLY_LENGTHS, ReplyStyle } from '../prompts.js';
+import { detectLanguage } from './language.js';
+import { defaultReplyStyle } from './personas.js';
+import { stripAttachments } from './attachments.js';
+import { buildConversationContext, rewriteQuery } from './conversation-memory.js';
+import { estimateTokens } from './utils.js';
+import { logger } from './logger.js';
+import { metrics } from './metrics.js';
+import { KnowledgeAccess, SourceAudience } from './kb-audiences.js';
+
+export type UserIntent = 'question' | 'escalation_request' | 'follow_up' | 'other';
+
+export const DEFAULT_ERROR_MESSAGE = "I'm sorry, I encountered a technical issue and couldn't process your request.";
+
+export const LOW_CONFIDENCE_MESSAGE = "I'm not confident I can answer this correctly from the documentation I have, so I'd rather not guess.";
+
+/**
+ * How sure the bot is of an answer: 'high' when the draft was checked against the passages and fully supported,
+ * 'medium' when it was partly supported or not checked, and 'low' when nothing relevant was found or the draft was
+ * not supported. Low-confidence answers are never sent; the ticket is escalated instead.
+ */
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export type GroundingVerdict = 'supported' | 'partial' | 'unsupported' | 'unchecked';
+
+/** Appended to answers that offer to escalate (see `AiReply.offersEscalation`). */
+export const ESCALATION_OFFER = "If you'd like, reply \"yes\" and I'll escalate this to the support team.";
+
+/** Replies like "no" or "no thanks" turn down an escalation offer. */
+export const DECLINE_PATTERN = /^\s*(no|nope|nah|not now|no thanks?)\b/i;
+
+/** Replies like "yes" or "please do" accept an escalation offer. */
+export const ACCEPT_PATTERN = /^\s*(yes|yeah|yep|sure|ok(ay)?|please( do)?|go ahead|escalate)\b/i;
+
+/**
+ * A passage an answer cites as [number].
+ */
+export interface ReplySource {
+    /** Chunk ID of the passage. */
+    id: string;
+    number: number;
+    /** Where the passage comes from, e.g. "atlas.pdf p. 12 § Installation". */
+    label: string;
+    /** Link to the passage, or null for sources that are not on the web, such as local files. */
+    url: string | null;
+    /** Who may read the passage's source; public unless the answer was written for someone who may read more. */
+    audience: SourceAudience;
+}
+
+/**
+ * An answer produced by `generateAiReply`, with what is needed to trace it back to its inputs.
+ */
+export interface AiReply {
+    /** The text to post. Citations are [1], [2]... markers; the sources they refer to are in `sources`. */
+    text: string;
+    /** The passages the answer cites, in the order of their numbers. */
+    sources: ReplySource[];
+    /** Chunk IDs of every passage retrieved for the answer, in retrieval order. */
+    sourceIds: string[];
+    /** The reply prompt template and version that produced the answer, e.g. `ai_reply_system@v1`. */
+    promptVersion: string;
+    /** ISO 639-1 code of the language the user wrote in, or null if it could not be told. */
+    language: string | null;
+    confidence: ConfidenceLevel;
+    /** Similarity score of the best passage retrieved, or 0 when nothing was found. */
+    topScore: number;
+    grounding: GroundingVerdict;
+    /**
+     * True when the bot could not answer (low confidence or an error) and the caller should hand the conversation
+     * to the support team; `text` then explains this without claiming anyone was notified.
+     */
+    escalate: boolean;
+    /**
+     * True when the model could not answer from the knowledge base and the reply offers to escalate.
+     * The caller should remember the offer so a "yes" from the user can be recognised as accepting it.
+     */
+    offersEscalation: boolean;
+}
+
+/**
+ * Describes where a passage comes from, e.g. "atlas.pdf p. 12 § Installation".
+ */
+function describeSource(doc: RetrievedDocument): string {
+    const name = doc.url.startsWith('local://') ? doc.url.slice('local://'.length) : doc.title;
+    const location = [doc.page ? `p. ${doc.page}` : '', doc.section ? `§ ${doc.section}` : ''].filter(Boolean).join(' ');
+    return location ? `${name} ${location}` : name;
+}
+
+/**
+ * Asks the model whether a drafted answer is backed by the passages it was given.
+ * @returns The verdict, or 'unchecked' if the check is turned off or the model's reply was unusable.
+ */
+async function checkGrounding(answer: string, knowledgeBaseContext: string): Promise<GroundingVerdict> {
+    if (!config.retrieval.groundingCheck) return 'unchecked';
+    try {
+        const response = await llm.chat([{ role: 'user', content: prompts.grounding_check(answer, knowledgeBaseContext) }], { maxTokens: 5, temperature: 0, purpose: 'grounding' });
+        const verdict = (response.content ?? '').trim().toLowerCase().match(/unsupported|supported|partial/)?.[0];
+        return (verdict as GroundingVerdict | undefined) ?? 'unchecked';
+    } catch (error) {
+        console.warn('⚠️ Grounding check failed:', (error as Error).message);
+        return 'unchecked';
+    }
+}
+
+/**
+ * Classifies the intent of a single user message.
+ * @param postContent The raw text of the user's message.
+ * @returns The detected intent, falling back to 'other' when the model's answer is unusable.
+ */
+export async function determineUserIntent(postContent: string): Promise<UserIntent> {
+    const prompt = prompts.intent_classifier(postContent);
+    try {
+        const completion = await llm.chat([{ role: 'user', content: prompt }], {
+            maxTokens: config.bot.max_intent_tokens,
+            temperature: 0,
+            purpose: 'intent',
+        });
+        const rawIntent = completion.content?.trim().toLowerCase() || 'other';
+        const cleanIntent = rawIntent.split(/[\s:]+/)[0].replace(/"/g, '');
+        const validIntents: UserIntent[] = ['question', 'escalation_request', 'follow_up', 'other'];
+        const intent: UserIntent = (validIntents as string[]).includes(cleanIntent) ? cleanIntent as UserIntent : 'other';
+        metrics.intents.inc({ intent });
+        return intent;
+    } catch (error) {
+        console.error("Error determining user intent:", error);
+        metrics.intents.inc({ intent: 'other' });
+        return 'other';
+    }
+}
+
+/**
+ * Where and how `generateAiReply` answers.
+ */
+export interface ReplyOptions {
+    /** The knowledge base namespace to answer from; defaults to the default namespace. */
+    namespace?: string;
+    /**
+     * What the answer may draw on; defaults to public sources only. Whoever can read the answer must be allowed to
+     * read all of it, so only widen this for answers that stay private to the requester.
+     */
+    access?: KnowledgeAccess;
+    /**
+     * What to search the knowledge base for; defaults to the latest message. Set it when that message carries
+     * attachments, to search for what matters in them rather than for the whole files. Follow-up questions are
+     * rewritten from it into a standalone query.
+     */
+    retrievalQuery?: string;
+    /**
+     * Where the conversation's rolling summary is kept: the Discord thread ID, or `discourse:<topic ID>`. Without it,
+     * messages over `config.context.historyTokens` are left out instead of summarized.
+     */
+    conversationId?: string;
+    /** Persona, tone, length and product details to answer with; defaults to `config.prompts` and `config.bot`. */
+    style?: ReplyStyle;
+    /**
+     * Streams the answer: called with the whole draft so far each time the model adds to it. The final reply can
+     * still differ, e.g. when the grounding check rejects the draft.
+     */
+    onDraft?: (draft: string) => void;
+}
+
+/**
+ * Formats an answer's sources as a Markdown list, for places that cannot show them as an embed.
+ * @returns The "Sources" block to append to the answer, or an empty string when nothing was cited.
+ */
+export function formatSourcesMarkdown(sources: ReplySource[]): string {
+    if (sources.length === 0) return '';
+    const lines = sources.map(source => `${source.number}. ${source.url ? `[${source.label}](${source.url})` : source.label}`);
+    return `\n\n**Sources:**\n${lines.join('\n')}`;
+}
+
+/**
+ * Answers the latest user message in a conversation using the knowledge base. Long conversations are cut to the
+ * budgets in `config.context`: older messages become a rolling summary and the lowest-ranked passages are left out.
+ * @param topicTitle The title of the thread or topic the conversation belongs to.
+ * @param conversation_history The whole conversation, oldest first, ending with the user's latest message.
+ * @param options Where to look for the answer and how to word it.
+ * @returns The reply, with the IDs of the retrieved sources, the prompt version used and how confident the bot is in it.
+ */
+export async function generateAiReply(topicTitle: string, conversation_history: ChatMessage[], options: ReplyOptions = {}): Promise<AiReply> {
+    const lastUserMessage = conversation_history[conversation_history.length - 1].content;
+    const style = options.style ?? defaultReplyStyle();
+    // Attached files are often in English whatever the user writes in, so only the typed text tells the language.
+    const language = detectLanguage(stripAttachments(lastUserMessage));
+
+    const context = await buildConversationContext(conversation_history, topicTitle, options.conversationId);
+    const originalQuery = options.retrievalQuery ?? lastUserMessage;
+    const query = await rewriteQuery(originalQuery, context);
+    if (query !== originalQuery) console.log(`- Search query: "${query}"`);
+
+    const similarDocs = await vectorStore.similaritySearch(query, 5, options.namespace, options.access);
+    // Passages come best first, so the ones left out to stay within the budget are the least relevant.
+    let knowledgeTokens = 0;
+    const relevantDocs = similarDocs
+        .filter(doc => doc.score >= config.retrieval.minScore)
+        .filter((doc, index) => (knowledgeTokens += estimateTokens(doc.content)) <= config.context.knowledgeTokens || index === 0);
+    const topScore = Math.max(0, ...similarDocs.map(doc => doc.score));
+
+    const formattedContext = relevantDocs
+        .map((doc, index) => `[Source ${index + 1}: ${describeSource(doc)}]\n${doc.content}`)
+        .join('\n\n---\n\n');
+    // Rendered even when nothing relevant was found, so those answers are attributed to the prompt in use as well.
+    const system_prompt = prompts.ai_reply_system(topicTitle, formattedContext, style, language, context.summary);
+
+    const reply = (text: string, confidence: ConfidenceLevel, grounding: GroundingVerdict = 'unchecked', sources: ReplySource[] = []): AiReply => {
+        logger.info(`- Reply confidence: ${confidence}`, {
+            event: 'reply',
+            confidence,
+            topScore: Number(topScore.toFixed(3)),
+            relevantPassages: relevantDocs.length,
+            retrievedPassages: similarDocs.length,
+            grounding,
+            promptVersion: system_prompt.version,
+        });
+        const offersEscalation = text.includes(ESCALATION_OFFER_MARKER);
+        return {
+            text: offersEscalation ? `${text.replace(ESCALATION_OFFER_MARKER, '').trim()}\n\n${ESCALATION_OFFER}` : text,
+            sources,
+            sourceIds: similarDocs.map(doc => doc.id),
+            promptVersion: system_prompt.version,
+            language: language?.code ?? null,
+            confidence,
+            topScore,
+            grounding,
+            escalate: confidence === 'low',
+            offersEscalation,
+        };
+    };
+
+    if (relevantDocs.length === 0) {
+        return reply(LOW_CONFIDENCE_MESSAGE, 'low');
+    }
+
+    const messages_for_api: ChatMessage[] = [{ role: 'system', content: system_prompt.text }, ...context.recent];
+
+    try {
+        let draft = '';
+        const onToken = options.onDraft && ((delta: string) => {
+            draft += delta;
+            // Hide the escalation marker, including while it is only partly written.
+            options.onDraft!(draft.replace(ESCALATION_OFFER_MARKER, '').replace(/\[[A-Z_]*$/, ''));
+        });
+        const response = await llm.chat(messages_for_api, { maxTokens: REPLY_LENGTHS[style.length].maxTokens, onToken, purpose: 'reply' });
+        const aiResponse = response.content;
+
+        // --- ROBUSTNESS FIX ---
+        if (!aiResponse || aiResponse.trim() === '') {
+            console.error(`${llm.name} returned an empty or null response.`);
+            return reply(DEFAULT_ERROR_MESSAGE, 'low');
+        }
+
+        const grounding = await checkGrounding(aiResponse.replace(ESCALATION_OFFER_MARKER, ''), formattedContext);
+        if (grounding === 'unsupported') {
+            return reply(LOW_CONFIDENCE_MESSAGE, 'low', grounding);
+        }
+
+        const sources: ReplySource[] = relevantDocs.flatMap((doc, index) => {
+            if (!aiResponse.includes(`[${index + 1}]`)) return [];
+            const url = doc.url.startsWith('http') ? (doc.anchor ? `${doc.url}#${doc.anchor}` : doc.url) : null;
+            return [{ id: doc.id, number: index + 1, label: describeSource(doc), url, audience: doc.audience }];
+        });
+
+        return reply(aiResponse, grounding === 'supported' ? 'high' : 'medium', grounding, sources);
+
+    } catch (e) {
+        console.error("Error generating AI reply:", e);
+        return reply(DEFAULT_ERROR_MESSAGE, 'low');
+    }
+}
@@ -0,0 +1,236 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import axios from 'axios';
+import pdf from 'pdf-parse/lib/pdf-parse.js';
+import { config } from '../config.js';
+import { getStateDb } from './state-db.js';
+
+const execFileAsync = promisify(execFile);
+
+export type AttachmentKind = 'text' | 'pdf' | 'image';
+
+/**
+ * A file attached to a message, as far as the bot needs to know it before downloading.
+ */
+export interface AttachmentInput {
+  name: string;
+  url: string;
+  /** Size in bytes, as reported by Discord. */
+  size: number;
+}
+
+/**
+ * The text read from an attachment, ready to be shown to the model.
+ */
+export interface ReadAttachment {
+  name: string;
+  kind: AttachmentKind;
+  /** The text, with secrets redacted and cut to `config.attachments.maxChars`. */
+  text: string;
+  truncated: boolean;
+  /** Secrets replaced with [REDACTED]. */
+  redactions: number;
+}
+
+export interface SkippedAttachment {
+  name: string;
+  reason: string;
+}
+
+const KINDS: Record<string, AttachmentKind> = {
+  '.log': 'text',
+  '.txt': 'text',
+  '.json': 'text',
+  '.yaml': 'text',
+  '.yml': 'text',
+  '.pdf': 'pdf',
+  '.png': 'image',
+  '.jpg': 'image',
+  '.jpeg': 'image',
+};
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Secrets that must never reach the model, each with the part to keep in group 1 where there is one.
+ * Assignments are matched by the name of the setting, standalone tokens by their well-known formats.
+ */
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  /(\b[\w.-]*(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credentials?|private[_-]?key|access[_-]?key|session[_-]?id|cookie)[\w.-]*["']?\s*[:=]\s*["']?)[^\s"',}]+/gi,
+  /(\bauthorization["']?\s*[:=]\s*["']?(?:bearer|basic|bot)\s+)[^\s"',}]+/gi,
+  /(\bbearer\s+)[A-Za-z0-9._~+/-]{16,}=*/gi,
+  /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]+(?=@)/gi,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bgh[pousr]_[A-Za-z0-9]{30,}\b/g,
+  /\bsk-[A-Za-z0-9_-]{20,}\b/g,
+  /\bxox[abeprs]-[A-Za-z0-9-]{10,}\b/g,
+  /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\b/g,
+  /\b[MNO][A-Za-z0-9_-]{23,27}\.[A-Za-z0-9_-]{6}\.[A-Za-z0-9_-]{27,}\b/g,
+];
+
+// Log lines worth searching the knowledge base for.
+const ERROR_LINE = /\b(error|exception|fail(ed|ure)?|fatal|panic|traceback|denied|refused|timed? ?out|not found|invalid)\b/i;
+
+/**
+ * Replaces tokens, keys, passwords and similar secrets in a text with [REDACTED].
+ * @returns The redacted text and how many secrets were replaced.
+ */
+export function redactSecrets(text: string): { text: string; redactions: number } {
+  let redactions = 0;
+  let redacted = text;
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, (_match, keep?: string) => {
+      redactions++;
+      return `${typeof keep === 'string' ? keep : ''}${REDACTED}`;
+    });
+  }
+  return { text: redacted, redactions };
+}
+
+/**
+ * Cuts a text to `maxChars`, keeping a quarter from the start and the rest from the end, where logs usually
+ * show what went wrong.
+ */
+function truncateMiddle(text: string, maxChars: number): { text: string; truncated: boolean } {
+  if (text.length <= maxChars) return { text, truncated: false };
+  const head = Math.floor(maxChars / 4);
+  const tail = maxChars - head;
+  return { text: `${text.slice(0, head)}\n[… ${text.length - maxChars} characters omitted …]\n${text.slice(-tail)}`, truncated: true };
+}
+
+let ocrAvailable: Promise<boolean> | null = null;
+
+/**
+ * Checks once whether the Tesseract command-line tool can be run.
+ */
+function isOcrAvailable(): Promise<boolean> {
+  ocrAvailable ??= execFileAsync(config.attachments.tesseractPath, ['--version'], { timeout: 5000 })
+    .then(() => true)
+    .catch(() => {
+      console.log(`- OCR is off: "${config.attachments.tesseractPath}" could not be run. Install Tesseract or set TESSERACT_PATH to read screenshots.`);
+      return false;
+    });
+  return ocrAvailable;
+}
+
+async function extractImageText(data: Buffer, extension: string): Promise<string> {
+  const file = path.join(os.tmpdir(), `attachment-${process.pid}-${Date.now()}${extension}`);
+  fs.writeFileSync(file, data);
+  try {
+    const { stdout } = await execFileAsync(config.attachments.tesseractPath, [file, 'stdout'], { timeout: 30000, maxBuffer: 5 * 1024 * 1024 });
+    return stdout;
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+/**
+ * Downloads and reads the supported attachments of a message: text files (.log, .txt, .json, .yaml), PDFs, and
+ * screenshots when OCR is available. Files that are too large, of another type, or unreadable are skipped.
+ * Secrets are redacted before the text is returned, so nothing downstream ever sees them.
+ */
+export async function readAttachments(attachments: AttachmentInput[]): Promise<{ read: ReadAttachment[]; skipped: SkippedAttachment[] }> {
+  const read: ReadAttachment[] = [];
+  const skipped: SkippedAttachment[] = [];
+  const { maxFiles, maxBytes, maxChars, downloadTimeoutMs } = config.attachments;
+
+  for (const [index, attachment] of attachments.entries()) {
+    const extension = path.extname(attachment.name).toLowerCase();
+    const kind = KINDS[extension];
+    if (index >= maxFiles) {
+      skipped.push({ name: attachment.name, reason: `only the first ${maxFiles} files of a message are read` });
+      continue;
+    }
+    if (!kind) {
+      skipped.push({ name: attachment.name, reason: 'unsupported file type' });
+      continue;
+    }
+    if (kind === 'image' && !(config.attachments.ocr && await isOcrAvailable())) {
+      skipped.push({ name: attachment.name, reason: 'images cannot be read on this server' });
+      continue;
+    }
+    if (attachment.size > maxBytes) {
+      skipped.push({ name: attachment.name, reason: `larger than ${Math.round(maxBytes / 1024)} KB` });
+      continue;
+    }
+
+    try {
+      const response = await axios.get(attachment.url, { responseType: 'arraybuffer', timeout: downloadTimeoutMs, maxContentLength: maxBytes });
+      const data = Buffer.from(response.data);
+      const raw = kind === 'pdf' ? (await pdf(data)).text
+        : kind === 'image' ? await extractImageText(data, extension)
+          : data.toString('utf-8');
+      if (!raw.trim()) {
+        skipped.push({ name: attachment.name, reason: 'no text found' });
+        continue;
+      }
+      const redacted = redactSecrets(raw.replace(/\r\n/g, '\n').trim());
+      const { text, truncated } = truncateMiddle(redacted.text, maxChars);
+      if (redacted.redactions > 0) console.log(`- 🔒 Redacted ${redacted.redactions} secret(s) in ${attachment.name}.`);
+      read.push({ name: attachment.name, kind, text, truncated, redactions: redacted.redactions });
+    } catch (error) {
+      console.warn(`- Could not read attachment ${attachment.name}:`, (error as Error).message);
+      skipped.push({ name: attachment.name, reason: 'could not be downloaded or read' });
+    }
+  }
+  return { read, skipped };
+}
+
+/**
+ * Appends attachments to a message's text, as it is shown to the model in the conversation.
+ */
+export function withAttachments(content: string, attachments: Pick<ReadAttachment, 'name' | 'text' | 'truncated'>[]): string {
+  const blocks = attachments.map(attachment =>
+    `[Attached file: ${attachment.name}${attachment.truncated ? ', shortened' : ''}]\n\`\`\`\n${attachment.text.replace(/```/g, "'''")}\n\`\`\``);
+  return [content, ...blocks].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Removes what `withAttachments` added, leaving the text the user typed.
+ */
+export function stripAttachments(content: string): string {
+  return content.replace(/\n*\[Attached file: [^\]\n]*\]\n```\n[\s\S]*?\n```/g, '').trim();
+}
+
+/**
+ * Builds the knowledge base query for a message with attachments: the message itself, followed by the lines of the
+ * attachments that look like errors, or their first lines when none do.
+ */
+export function attachmentQuery(content: string, attachments: ReadAttachment[]): string {
+  if (attachments.length === 0) return content;
+  const lines = attachments.flatMap(attachment => attachment.text.split('\n')).map(line => line.trim()).filter(Boolean);
+  const errorLines = lines.filter(line => ERROR_LINE.test(line));
+  const excerpt = (errorLines.length > 0 ? errorLines : lines).join('\n').slice(0, config.attachments.maxQueryChars);
+  return [content, excerpt].filter(Boolean).join('\n');
+}
+
+/**
+ * Attachments read from ticket messages, kept in the state DB so later answers in the same ticket still see them.
+ */
+export const attachmentStore = {
+  record: (messageId: string, threadId: string, attachments: ReadAttachment[]): void => {
+    const insert = getStateDb().prepare(`
+      INSERT OR REPLACE INTO message_attachments (message_id, name, thread_id, kind, text, truncated, redactions) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const attachment of attachments) {
+      insert.run(messageId, attachment.name, threadId, attachment.kind, attachment.text, attachment.truncated ? 1 : 0, attachment.redactions);
+    }
+  },
+
+  /**
+   * Returns the attachments read from a thread's messages, by message ID.
+   */
+  listByThread: (threadId: string): Map<string, ReadAttachment[]> => {
+    const rows = getStateDb().prepare('SELECT message_id, name, kind, text, truncated, redactions FROM message_attachments WHERE thread_id = ? ORDER BY rowid').all(threadId) as
+      (Omit<ReadAttachment, 'truncated'> & { message_id: string; truncated: number })[];
+    const byMessage = new Map<string, ReadAttachment[]>();
+    for (const { message_id, truncated, ...attachment } of rows) {
+      byMessage.set(message_id, [...(byMessage.get(message_id) ?? []), { ...attachment, truncated: truncated === 1 }]);
+    }
+    return byMessage;
+  },
+};
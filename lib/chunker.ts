@@ -0,0 +1,299 @@
+import type { CheerioAPI } from 'cheerio';
+import { chunkText } from './utils.js';
+
+/**
+ * A structural unit of a document. Blocks are never split across chunks unless they are too large on their own.
+ */
+export interface TextBlock {
+  type: 'heading' | 'paragraph' | 'code' | 'table';
+  text: string;
+  /** Heading level, 1 for the top level. Only set on headings. */
+  level?: number;
+  /** Fragment identifier that links to the heading. Only set on headings. */
+  anchor?: string;
+  /** 1-based page number, for paginated sources such as PDFs. */
+  page?: number;
+}
+
+/**
+ * A chunk of a document, ready to be embedded, with the location metadata used for citations.
+ */
+export interface DocumentChunk {
+  content: string;
+  headingPath: string[];
+  page?: number;
+  anchor?: string;
+}
+
+/**
+ * Converts a heading into the anchor GitHub generates for it, e.g. "Install & Run" becomes "install--run".
+ */
+export function slugify(heading: string): string {
+  return heading.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s/g, '-');
+}
+
+/**
+ * Splits Markdown (or plain text) into headings, paragraphs, fenced code blocks and tables.
+ * @param text The Markdown source.
+ * @param page The page the text came from, if the source is paginated.
+ * @returns The blocks in document order.
+ */
+export function markdownToBlocks(text: string, page?: number): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const slugCounts = new Map<string, number>();
+  const lines = text.split(/\r?\n/);
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n'), page });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = /^\s*(```|~~~)/.exec(line);
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+
+    if (fence) {
+      flushParagraph();
+      const codeLines = [line];
+      while (++i < lines.length) {
+        codeLines.push(lines[i]);
+        if (lines[i].trim().startsWith(fence[1])) break;
+      }
+      blocks.push({ type: 'code', text: codeLines.join('\n'), page });
+    } else if (heading) {
+      flushParagraph();
+      // Repeated headings get "-1", "-2"... suffixes, matching the anchors GitHub renders.
+      const slug = slugify(heading[2]);
+      const seen = slugCounts.get(slug) ?? 0;
+      slugCounts.set(slug, seen + 1);
+      blocks.push({ type: 'heading', text: heading[2], level: heading[1].length, anchor: seen ? `${slug}-${seen}` : slug, page });
+    } else if (line.trim().startsWith('|')) {
+      flushParagraph();
+      const tableLines = [line];
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith('|')) {
+        tableLines.push(lines[++i]);
+      }
+      blocks.push({ type: 'table', text: tableLines.join('\n'), page });
+    } else if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * A line of text on a PDF page. Blank lines stand for larger vertical gaps, such as those between paragraphs.
+ */
+export interface PdfLine {
+  text: string;
+  /** Font size in points; the largest one on the line. */
+  fontSize: number;
+}
+
+const NUMBERED_HEADING = /^\s*(\d+(?:\.\d+)*)\.?\s+([A-Z][^.!?]{1,80})$/;
+const MAX_HEADING_WORDS = 8;
+
+// Numbered steps start with an instruction, e.g. "1. Open the settings panel"; section titles rarely do.
+const STEP_VERBS = new Set([
+  'add', 'allow', 'apply', 'attach', 'change', 'check', 'choose', 'click', 'close', 'configure', 'confirm', 'connect',
+  'copy', 'create', 'delete', 'disable', 'download', 'drag', 'edit', 'enable', 'enter', 'find', 'go', 'install',
+  'launch', 'log', 'make', 'move', 'navigate', 'open', 'paste', 'press', 'reboot', 'remove', 'restart', 'run', 'save',
+  'scroll', 'search', 'select', 'set', 'sign', 'start', 'stop', 'switch', 'tap', 'turn', 'type', 'update', 'upload',
+  'use', 'verify', 'wait',
+]);
+
+/**
+ * Returns the font size most of a document's text is set in, which headings are larger than.
+ */
+function bodyFontSize(pages: PdfLine[][]): number {
+  const characters = new Map<number, number>();
+  for (const line of pages.flat()) {
+    if (line.text.trim()) characters.set(line.fontSize, (characters.get(line.fontSize) ?? 0) + line.text.length);
+  }
+  return [...characters].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+}
+
+/**
+ * Turns the lines of each PDF page into blocks, keeping the page number of each one.
+ * PDFs carry no heading markup, so short numbered lines such as "2.1 Installation" are taken as headings, as long as
+ * they do not read like a numbered step, and are set apart by a blank line after them or by a larger font.
+ * @param pages The lines of each page, in page order.
+ */
+export function pdfPagesToBlocks(pages: PdfLine[][]): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const bodySize = bodyFontSize(pages);
+  pages.forEach((lines, index) => {
+    const page = index + 1;
+    let paragraph: string[] = [];
+    const flushParagraph = () => {
+      if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join('\n'), page });
+      paragraph = [];
+    };
+
+    lines.forEach((line, i) => {
+      if (!line.text.trim()) {
+        flushParagraph();
+        return;
+      }
+      const numbered = NUMBERED_HEADING.exec(line.text);
+      const title = numbered?.[2].trim();
+      const isHeading = !!title
+        && title.split(/\s+/).length <= MAX_HEADING_WORDS
+        && !STEP_VERBS.has(title.split(/\s+/)[0].toLowerCase())
+        && (lines[i + 1]?.text.trim() === '' || line.fontSize > bodySize);
+      if (isHeading) {
+        flushParagraph();
+        blocks.push({ type: 'heading', text: title, level: numbered![1].split('.').length, page });
+      } else {
+        paragraph.push(line.text);
+      }
+    });
+    flushParagraph();
+  });
+  return blocks;
+}
+
+/**
+ * Extracts blocks from the main content of an HTML page. Heading anchors come from the page's own `id` attributes,
+ * so `url#anchor` links land on the right section.
+ * @param $ The loaded page; navigation, scripts and other boilerplate should already be removed.
+ */
+export function htmlToBlocks($: CheerioAPI): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const selector = 'h1, h2, h3, h4, h5, h6, p, pre, table, li, blockquote, dt, dd';
+  const containers = 'p, pre, table, li, blockquote, dt, dd';
+
+  $('body').find(selector).each((_, element) => {
+    const $el = $(element);
+    if ($el.parents(containers).length > 0) return;
+
+    const tag = element.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) {
+      const text = $el.text().replace(/\s+/g, ' ').trim();
+      const anchor = $el.attr('id') || $el.find('[id]').first().attr('id') || $el.closest('section[id]').attr('id');
+      if (text) blocks.push({ type: 'heading', text, level: Number(tag[1]), anchor });
+    } else if (tag === 'pre') {
+      blocks.push({ type: 'code', text: `\`\`\`\n${$el.text().replace(/\n+$/, '')}\n\`\`\`` });
+    } else if (tag === 'table') {
+      const rows = $el.find('tr').map((_, row) =>
+        `| ${$(row).find('th, td').map((_, cell) => $(cell).text().replace(/\s+/g, ' ').trim()).get().join(' | ')} |`).get();
+      if (rows.length > 0) blocks.push({ type: 'table', text: rows.join('\n') });
+    } else {
+      const text = $el.text().replace(/\s+/g, ' ').trim();
+      if (text) blocks.push({ type: 'paragraph', text: tag === 'li' ? `- ${text}` : text });
+    }
+  });
+
+  // Pages built from bare <div>s have none of the elements above; fall back to the page text as a whole.
+  if (blocks.length === 0) {
+    const text = $('body').text().replace(/\s\s+/g, ' ').trim();
+    if (text) blocks.push({ type: 'paragraph', text });
+  }
+  return blocks;
+}
+
+/**
+ * Splits a block that is too large for one chunk: code by lines (re-opening the fence in every piece),
+ * tables by rows, and prose by sentences. A single line or sentence that is still too long is cut by characters.
+ */
+function splitOversizedBlock(block: TextBlock, chunkSize: number): string[] {
+  let units: string[];
+  let separator: string;
+  let fence = '';
+
+  if (block.type === 'code') {
+    const lines = block.text.split('\n');
+    fence = lines[0].trim();
+    units = lines.slice(1, lines[lines.length - 1].trim().startsWith(fence.slice(0, 3)) ? -1 : undefined);
+    separator = '\n';
+    chunkSize -= fence.length + 5;
+  } else if (block.type === 'table') {
+    units = block.text.split('\n');
+    separator = '\n';
+  } else {
+    units = block.text.split(/(?<=[.!?])\s+/);
+    separator = ' ';
+  }
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const unit of units.flatMap(u => (u.length > chunkSize ? chunkText(u, chunkSize, 0) : [u]))) {
+    if (current && current.length + separator.length + unit.length > chunkSize) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? current + separator + unit : unit;
+  }
+  if (current) pieces.push(current);
+
+  return fence ? pieces.map(piece => `${fence}\n${piece}\n${fence.slice(0, 3)}`) : pieces.map(piece => piece.trim());
+}
+
+/**
+ * Packs blocks into chunks of at most `chunkSize` characters without cutting through sentences, code blocks or tables.
+ * A new chunk starts at every heading and every page break, and each chunk records the heading path,
+ * page and anchor of the section it belongs to. A heading at the end of a page starts the chunk on the next one.
+ * @param blocks The document's blocks, in order.
+ * @param chunkSize The maximum size of each chunk, in characters.
+ * @returns The chunks, in document order.
+ */
+export function chunkBlocks(blocks: TextBlock[], chunkSize = 1000): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const headingStack: { level: number; text: string; anchor?: string }[] = [];
+  let parts: string[] = [];
+  let hasBody = false;
+  let page: number | undefined;
+
+  const location = () => ({
+    headingPath: headingStack.map(h => h.text),
+    page,
+    anchor: [...headingStack].reverse().find(h => h.anchor)?.anchor,
+  });
+  const flush = () => {
+    if (hasBody) chunks.push({ content: parts.join('\n\n'), ...location() });
+    parts = [];
+    hasBody = false;
+  };
+
+  for (const block of blocks) {
+    if (block.page !== page) {
+      // Headings with no text under them yet carry over, so a section starting at the foot of a page keeps its title.
+      if (hasBody) flush();
+      page = block.page;
+    }
+
+    if (block.type === 'heading') {
+      // Consecutive headings stay together at the top of the next chunk instead of forming chunks of their own.
+      if (hasBody) flush();
+      const level = block.level ?? 1;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) headingStack.pop();
+      headingStack.push({ level, text: block.text, anchor: block.anchor });
+      parts.push(`${'#'.repeat(level)} ${block.text}`);
+      continue;
+    }
+
+    if (hasBody && parts.join('\n\n').length + 2 + block.text.length > chunkSize) flush();
+
+    if (block.text.length <= chunkSize) {
+      parts.push(block.text);
+      hasBody = true;
+    } else {
+      // Pending headings stay attached to the first piece of the oversized block.
+      const headings = parts.join('\n\n');
+      splitOversizedBlock(block, chunkSize).forEach((piece, index) => {
+        chunks.push({ content: index === 0 && headings ? `${headings}\n\n${piece}` : piece, ...location() });
+      });
+      parts = [];
+      hasBody = false;
+    }
+  }
+  flush();
+  return chunks;
+}
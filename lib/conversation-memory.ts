@@ -0,0 +1,135 @@
+import { config } from '../config.js';
+import { prompts } from '../prompts.js';
+import { llm, ChatMessage } from './llm.js';
+import { getStateDb } from './state-db.js';
+import { estimateTokens } from './utils.js';
+
+/**
+ * The rolling summary of a conversation's older messages, as kept in the state DB.
+ */
+export interface ConversationSummary {
+  /** A Discord thread ID, or `discourse:<topic ID>` for forum topics. */
+  conversation_id: string;
+  summary: string;
+  /** How many messages, counted from the start of the conversation, the summary covers. */
+  message_count: number;
+  updated_at: string;
+}
+
+/**
+ * What the reply prompt is given of a conversation: a summary of its older messages and the newest ones word for word.
+ */
+export interface ConversationContext {
+  /** Null while the whole conversation fits the budget, or when no summary could be written yet. */
+  summary: string | null;
+  /** The newest messages, oldest first, always ending with the latest one. */
+  recent: ChatMessage[];
+}
+
+// Summaries are written from at most this much of the new messages, keeping the end.
+const MAX_SUMMARY_INPUT_CHARS = 12000;
+// Messages before the latest one that the query rewrite sees, and how much of each.
+const REWRITE_MESSAGES = 6;
+const REWRITE_MESSAGE_CHARS = 500;
+const MAX_QUERY_CHARS = 1000;
+
+const renderMessages = (messages: ChatMessage[], maxCharsPerMessage = Infinity): string => messages
+  .map(m => `${m.role === 'assistant' ? 'Bot' : 'User'}: ${m.content.length > maxCharsPerMessage ? `${m.content.slice(0, maxCharsPerMessage)}…` : m.content}`)
+  .join('\n');
+
+/**
+ * Rolling summaries of long conversations, one per Discord thread or Discourse topic.
+ */
+export const summaryStore = {
+  get: (conversationId: string): ConversationSummary | undefined =>
+    getStateDb().prepare('SELECT * FROM conversation_summaries WHERE conversation_id = ?').get(conversationId) as ConversationSummary | undefined,
+
+  save: (conversationId: string, summary: string, messageCount: number): void => {
+    getStateDb().prepare(`
+      INSERT INTO conversation_summaries (conversation_id, summary, message_count) VALUES (?, ?, ?)
+      ON CONFLICT(conversation_id) DO UPDATE SET summary = excluded.summary, message_count = excluded.message_count, updated_at = CURRENT_TIMESTAMP
+    `).run(conversationId, summary, messageCount);
+  },
+};
+
+/**
+ * Splits a conversation at a token budget: the newest messages that fit in it, and everything before them.
+ * The latest message is always kept, even when it alone is over the budget.
+ */
+export function splitAtBudget(history: ChatMessage[], budgetTokens: number): { older: ChatMessage[]; recent: ChatMessage[] } {
+  let used = 0;
+  let start = history.length;
+  while (start > 0) {
+    const tokens = estimateTokens(history[start - 1].content);
+    if (start < history.length && used + tokens > budgetTokens) break;
+    used += tokens;
+    start--;
+  }
+  return { older: history.slice(0, start), recent: history.slice(start) };
+}
+
+/**
+ * Brings a conversation's rolling summary up to date with the messages that no longer fit the context. Only the
+ * messages the stored summary does not cover yet are sent to the model, so each message is summarized once.
+ * @param older The messages before the ones kept word for word, oldest first.
+ * @returns The summary. If the model fails, the stored one is returned as it is and the new messages are summarized
+ *   on the next reply instead.
+ */
+async function updateSummary(conversationId: string, topicTitle: string, older: ChatMessage[]): Promise<string | null> {
+  const stored = summaryStore.get(conversationId);
+  const unsummarized = older.slice(stored?.message_count ?? 0);
+  if (unsummarized.length === 0) return stored?.summary ?? null;
+
+  const transcript = renderMessages(unsummarized);
+  const prompt = prompts.summarize_conversation(
+    topicTitle,
+    stored?.summary ?? null,
+    transcript.length > MAX_SUMMARY_INPUT_CHARS ? `…${transcript.slice(-MAX_SUMMARY_INPUT_CHARS)}` : transcript,
+    Math.round(config.context.summaryTokens * 3 / 4),
+  );
+  try {
+    const response = await llm.chat([{ role: 'user', content: prompt }], { maxTokens: config.context.summaryTokens, temperature: 0, purpose: 'summarize_conversation' });
+    const summary = response.content?.trim();
+    if (!summary) throw new Error(`${llm.name} returned an empty summary.`);
+    summaryStore.save(conversationId, summary, older.length);
+    console.log(`- Summarized ${unsummarized.length} older message(s) of the conversation.`);
+    return summary;
+  } catch (error) {
+    console.warn('⚠️ Could not update the conversation summary:', (error as Error).message);
+    return stored?.summary ?? null;
+  }
+}
+
+/**
+ * Fits a conversation into `config.context.historyTokens`: the newest messages word for word, and a rolling summary
+ * of the rest, kept in the state DB and updated as messages fall out of the budget.
+ * @param conversationId Where the summary is kept. Without one nothing is summarized, and the messages over the budget
+ *   are simply left out.
+ */
+export async function buildConversationContext(history: ChatMessage[], topicTitle: string, conversationId?: string): Promise<ConversationContext> {
+  const { older, recent } = splitAtBudget(history, config.context.historyTokens);
+  if (older.length === 0 || !conversationId) return { summary: null, recent };
+  return { summary: await updateSummary(conversationId, topicTitle, older), recent };
+}
+
+/**
+ * Rewrites what the latest message asks into a search query that stands on its own, using the summary and the recent
+ * messages, so that follow-ups like "and how do I do that on Windows?" find the passages they are about.
+ * @param query What would otherwise be searched for: the latest message, or what was taken from its attachments.
+ * @returns The rewritten query, or `query` itself when rewriting is off, nothing came before the latest message, or
+ *   the model's answer was unusable.
+ */
+export async function rewriteQuery(query: string, context: ConversationContext): Promise<string> {
+  const earlier = context.recent.slice(0, -1);
+  if (!config.context.queryRewrite || (!context.summary && earlier.length === 0)) return query;
+
+  const prompt = prompts.rewrite_query(query, context.summary, renderMessages(earlier.slice(-REWRITE_MESSAGES), REWRITE_MESSAGE_CHARS));
+  try {
+    const response = await llm.chat([{ role: 'user', content: prompt }], { maxTokens: 100, temperature: 0, purpose: 'rewrite_query' });
+    const rewritten = (response.content ?? '').replace(/\s+/g, ' ').trim().replace(/^"(.*)"$/, '$1');
+    return rewritten && rewritten.length <= MAX_QUERY_CHARS ? rewritten : query;
+  } catch (error) {
+    console.warn('⚠️ Query rewrite failed:', (error as Error).message);
+    return query;
+  }
+}
@@ -0,0 +1,414 @@
+import zlib from 'zlib';
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import puppeteer, { Browser } from 'puppeteer';
+import { config } from '../config.js';
+import { openKnowledgeTable } from './knowledge-base.js';
+import { ingestHtml, IngestOptions } from './ingestion.js';
+import { getStateDb } from './state-db.js';
+import { DEFAULT_NAMESPACE } from './kb-namespaces.js';
+import { globToRegExp } from './utils.js';
+
+export interface CrawlOptions extends IngestOptions {
+  /** Pages fetched per run, counting pages fetched before a resume. */
+  maxPages: number;
+  maxDepth: number;
+  /** Globs a URL must match one of to be crawled; empty means every page on the start URL's origin. */
+  include: string[];
+  /** Globs of URLs never to crawl, applied after `include`. */
+  exclude: string[];
+  concurrency: number;
+  delayMs: number;
+  mode: 'browser' | 'static';
+  /** Seed the frontier with the URLs listed in the site's sitemaps. */
+  useSitemap: boolean;
+  /** Start a new run even if an interrupted crawl of the same start URL into the same namespace could be resumed. */
+  fresh: boolean;
+}
+
+type FrontierStatus = 'pending' | 'fetching' | 'done' | 'duplicate' | 'skipped' | 'failed';
+
+interface FrontierEntry {
+  url: string;
+  depth: number;
+}
+
+/**
+ * The rules robots.txt sets for our user agent.
+ */
+export interface RobotsRules {
+  isAllowed: (pathAndQuery: string) => boolean;
+  crawlDelayMs?: number;
+  sitemaps: string[];
+}
+
+// Links to these are never HTML pages, so they are not worth a request.
+const NON_HTML_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|css|js|json|xml|pdf|zip|gz|tar|mp4|mp3|woff2?|ttf)$/i;
+
+// Sitemap indexes can nest; deeper levels are ignored.
+const MAX_SITEMAP_DEPTH = 2;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Persistent crawl state, so a crawl that crashes or is killed resumes where it stopped instead of starting over.
+ * A run is left 'running' only when it was interrupted; runs that complete or reach their page limit are 'finished'.
+ */
+const frontier = {
+  findInterruptedRun: (startUrl: string, namespace: string): number | undefined =>
+    (getStateDb().prepare(`
+      SELECT id FROM crawl_runs WHERE start_url = ? AND namespace = ? AND status = 'running' ORDER BY id DESC
+    `).get(startUrl, namespace) as { id: number } | undefined)?.id,
+
+  createRun: (startUrl: string, namespace: string): number =>
+    Number(getStateDb().prepare('INSERT INTO crawl_runs (start_url, namespace) VALUES (?, ?)').run(startUrl, namespace).lastInsertRowid),
+
+  finishRun: (runId: number): void => {
+    getStateDb().prepare(`UPDATE crawl_runs SET status = 'finished', finished_at = CURRENT_TIMESTAMP WHERE id = ?`).run(runId);
+  },
+
+  /** Puts pages that were being fetched when the previous process died back in the queue. */
+  requeueInFlight: (runId: number): void => {
+    getStateDb().prepare(`UPDATE crawl_frontier SET status = 'pending' WHERE run_id = ? AND status = 'fetching'`).run(runId);
+  },
+
+  /** Adds a URL to the frontier. URLs already in it, whatever their status, are left alone. */
+  add: (runId: number, url: string, depth: number): void => {
+    getStateDb().prepare('INSERT OR IGNORE INTO crawl_frontier (run_id, url, depth) VALUES (?, ?, ?)').run(runId, url, depth);
+  },
+
+  has: (runId: number, url: string): boolean =>
+    !!getStateDb().prepare('SELECT 1 FROM crawl_frontier WHERE run_id = ? AND url = ?').get(runId, url),
+
+  /** Takes the shallowest pending URL, in discovery order, and marks it as being fetched. */
+  claimNext: (runId: number): FrontierEntry | undefined => {
+    const db = getStateDb();
+    return db.transaction(() => {
+      const entry = db.prepare(`
+        SELECT url, depth FROM crawl_frontier WHERE run_id = ? AND status = 'pending' ORDER BY depth, rowid LIMIT 1
+      `).get(runId) as FrontierEntry | undefined;
+      if (entry) db.prepare(`UPDATE crawl_frontier SET status = 'fetching' WHERE run_id = ? AND url = ?`).run(runId, entry.url);
+      return entry;
+    })();
+  },
+
+  complete: (runId: number, url: string, status: FrontierStatus, details: { canonicalUrl?: string; error?: string } = {}): void => {
+    getStateDb().prepare(`
+      UPDATE crawl_frontier SET status = ?, canonical_url = ?, error = ? WHERE run_id = ? AND url = ?
+    `).run(status, details.canonicalUrl ?? null, details.error ?? null, runId, url);
+  },
+
+  /** Canonical URLs already ingested in this run, so pages reachable under several URLs are only stored once. */
+  ingestedCanonicals: (runId: number): string[] =>
+    (getStateDb().prepare(`SELECT canonical_url FROM crawl_frontier WHERE run_id = ? AND status = 'done'`).all(runId) as { canonical_url: string }[])
+      .map(row => row.canonical_url),
+
+  countFetched: (runId: number): number =>
+    (getStateDb().prepare(`
+      SELECT COUNT(*) AS n FROM crawl_frontier WHERE run_id = ? AND status IN ('done', 'duplicate', 'skipped', 'failed')
+    `).get(runId) as { n: number }).n,
+
+  hasPending: (runId: number): boolean =>
+    !!getStateDb().prepare(`SELECT 1 FROM crawl_frontier WHERE run_id = ? AND status IN ('pending', 'fetching')`).get(runId),
+};
+
+/**
+ * Removes the fragment, which never changes the page that is served, so `page#a` and `page#b` are crawled once.
+ * @returns The normalised URL, or null for anything that is not an http(s) URL.
+ */
+function normalizeUrl(href: string, base?: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses robots.txt following RFC 9309: the most specific user-agent group that names us applies (falling back to `*`),
+ * and among the rules that match a path the longest one wins, with Allow winning ties.
+ * @param text The contents of robots.txt.
+ * @param userAgent Our user agent; its product token (the part before '/') is matched against the groups.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = userAgent.split('/')[0].toLowerCase();
+  const groups: { agents: string[]; rules: { allow: boolean; pattern: string }[]; crawlDelay?: number }[] = [];
+  const sitemaps: string[] = [];
+  let current: (typeof groups)[number] | undefined;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (field === 'sitemap') {
+      sitemaps.push(value);
+    } else if (current && (field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (current && field === 'crawl-delay' && !isNaN(Number(value))) {
+      current.crawlDelay = Number(value);
+    }
+  }
+
+  const named = groups
+    .map(group => ({ group, match: Math.max(-1, ...group.agents.filter(agent => agent !== '*' && token.includes(agent)).map(agent => agent.length)) }))
+    .filter(({ match }) => match >= 0)
+    .sort((a, b) => b.match - a.match);
+  const group = named[0]?.group ?? groups.find(g => g.agents.includes('*'));
+
+  const rules = (group?.rules ?? []).map(rule => {
+    const anchored = rule.pattern.endsWith('$');
+    const body = anchored ? rule.pattern.slice(0, -1) : rule.pattern;
+    const source = body.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return { ...rule, regex: new RegExp(`^${source}${anchored ? '$' : ''}`) };
+  });
+
+  return {
+    isAllowed: (pathAndQuery) => {
+      const matching = rules.filter(rule => rule.regex.test(pathAndQuery));
+      if (matching.length === 0) return true;
+      const longest = Math.max(...matching.map(rule => rule.pattern.length));
+      return matching.some(rule => rule.allow && rule.pattern.length === longest);
+    },
+    crawlDelayMs: group?.crawlDelay !== undefined ? group.crawlDelay * 1000 : undefined,
+    sitemaps,
+  };
+}
+
+/**
+ * Downloads and parses robots.txt for an origin. A missing robots.txt (any 4xx) allows everything; if it cannot be
+ * fetched at all, the site is treated as disallowing everything, as RFC 9309 asks.
+ */
+async function fetchRobotsTxt(origin: string): Promise<RobotsRules> {
+  try {
+    const response = await axios.get(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': config.crawler.userAgent },
+      responseType: 'text',
+      timeout: 30000,
+      validateStatus: status => status < 500,
+    });
+    if (response.status >= 400) return parseRobotsTxt('', config.crawler.userAgent);
+    return parseRobotsTxt(String(response.data), config.crawler.userAgent);
+  } catch (error) {
+    console.warn(`⚠️ Could not fetch ${origin}/robots.txt (${(error as Error).message}); not crawling this site.`);
+    return { isAllowed: () => false, sitemaps: [] };
+  }
+}
+
+/**
+ * Collects the page URLs listed in a sitemap, following sitemap indexes. Gzipped sitemaps (`.xml.gz`) are supported.
+ */
+async function readSitemap(url: string, depth = 0): Promise<string[]> {
+  try {
+    const response = await axios.get(url, { headers: { 'User-Agent': config.crawler.userAgent }, responseType: 'arraybuffer', timeout: 30000 });
+    const buffer = Buffer.from(response.data);
+    const xml = (url.endsWith('.gz') ? zlib.gunzipSync(buffer) : buffer).toString('utf-8');
+    const $ = cheerio.load(xml, { xml: true });
+
+    const nested = $('sitemapindex > sitemap > loc').map((_, loc) => $(loc).text().trim()).get();
+    if (nested.length > 0) {
+      if (depth >= MAX_SITEMAP_DEPTH) return [];
+      const pages: string[] = [];
+      for (const sitemap of nested) pages.push(...await readSitemap(sitemap, depth + 1));
+      return pages;
+    }
+    return $('urlset > url > loc').map((_, loc) => $(loc).text().trim()).get();
+  } catch (error) {
+    console.warn(`- ⚠️ Could not read sitemap ${url}:`, (error as Error).message);
+    return [];
+  }
+}
+
+/**
+ * Fetches pages either with a headless browser, which runs the page's JavaScript, or as plain HTML.
+ */
+interface PageFetcher {
+  /** @returns The page's HTML and the URL it ended up at after redirects, or null if it is not an HTML page. */
+  fetch: (url: string) => Promise<{ html: string; finalUrl: string } | null>;
+  close: () => Promise<void>;
+}
+
+function createStaticFetcher(): PageFetcher {
+  return {
+    fetch: async (url) => {
+      const response = await axios.get(url, { headers: { 'User-Agent': config.crawler.userAgent }, responseType: 'text', timeout: 60000 });
+      if (!String(response.headers['content-type'] ?? '').includes('html')) return null;
+      return { html: String(response.data), finalUrl: response.request?.res?.responseUrl ?? url };
+    },
+    close: async () => {},
+  };
+}
+
+function createBrowserFetcher(): PageFetcher {
+  let browser: Promise<Browser> | undefined;
+  return {
+    fetch: async (url) => {
+      browser ??= puppeteer.launch({ args: ['--no-sandbox', '--disable-setuid-sandbox'] }); // Added args for Linux compatibility
+      const page = await (await browser).newPage();
+      try {
+        await page.setUserAgent(config.crawler.userAgent);
+        const response = await page.goto(url, { waitUntil: 'networkidle2', timeout: 60000 });
+        if (!(response?.headers()['content-type'] ?? '').includes('html')) return null;
+        return { html: await page.content(), finalUrl: page.url() };
+      } finally {
+        await page.close();
+      }
+    },
+    close: async () => {
+      if (browser) await (await browser).close();
+    },
+  };
+}
+
+/**
+ * Crawls a documentation site and ingests every page it visits.
+ *
+ * The frontier is seeded with the start URL and, unless disabled, the site's sitemaps. Pages are fetched by
+ * `concurrency` workers, shallowest first, with at least `delayMs` (or the robots.txt Crawl-delay) between requests.
+ * Only pages on the start URL's origin that robots.txt allows and that pass the include/exclude globs are crawled,
+ * and pages whose canonical URL was already ingested are skipped. The frontier lives in the state DB, so running the
+ * same crawl again after a crash picks up where it stopped.
+ * @param startUrl The page to start from.
+ * @param options Limits and filters for the crawl.
+ */
+export async function crawlSite(startUrl: string, options: CrawlOptions): Promise<void> {
+  const start = normalizeUrl(startUrl);
+  if (!start) throw new Error(`"${startUrl}" is not an http(s) URL.`);
+  const origin = new URL(start).origin;
+
+  const robots = await fetchRobotsTxt(origin);
+  const include = options.include.map(globToRegExp);
+  const exclude = options.exclude.map(globToRegExp);
+  const shouldCrawl = (url: string) => {
+    const parsed = new URL(url);
+    return parsed.origin === origin
+      && !NON_HTML_EXTENSIONS.test(parsed.pathname)
+      && (include.length === 0 || include.some(regex => regex.test(url)))
+      && !exclude.some(regex => regex.test(url))
+      && robots.isAllowed(parsed.pathname + parsed.search);
+  };
+
+  const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+  let runId = options.fresh ? undefined : frontier.findInterruptedRun(start, namespace);
+  if (runId !== undefined) {
+    frontier.requeueInFlight(runId);
+    console.log(`🔁 Resuming interrupted crawl #${runId} of ${start} (${frontier.countFetched(runId)} pages already fetched).`);
+  } else {
+    runId = frontier.createRun(start, namespace);
+    console.log(`🚀 Starting crawl #${runId} from ${start} (max ${options.maxPages} pages, depth ${options.maxDepth}, ${options.mode} mode)`);
+    if (shouldCrawl(start)) frontier.add(runId, start, 0);
+    if (options.useSitemap) {
+      const sitemaps = robots.sitemaps.length > 0 ? robots.sitemaps : [`${origin}/sitemap.xml`];
+      let seeded = 0;
+      for (const sitemap of sitemaps) {
+        for (const loc of await readSitemap(sitemap)) {
+          const url = normalizeUrl(loc);
+          if (url && shouldCrawl(url)) {
+            frontier.add(runId, url, 0);
+            seeded++;
+          }
+        }
+      }
+      console.log(`- Seeded ${seeded} URLs from ${sitemaps.join(', ')}.`);
+    }
+  }
+  const id = runId;
+
+  const delayMs = Math.max(options.delayMs, robots.crawlDelayMs ?? 0);
+  const table = await openKnowledgeTable(namespace);
+  const fetcher = options.mode === 'static' ? createStaticFetcher() : createBrowserFetcher();
+  const canonicals = new Set(frontier.ingestedCanonicals(id));
+  let fetched = frontier.countFetched(id);
+  let inFlight = 0;
+  let ingested = 0;
+  let unchanged = 0;
+  let nextRequestAt = 0;
+
+  const processPage = async (entry: FrontierEntry, ordinal: number) => {
+    // Reserve a request slot before waiting, so concurrent workers stay `delayMs` apart.
+    const now = Date.now();
+    const wait = Math.max(0, nextRequestAt - now);
+    nextRequestAt = now + wait + delayMs;
+    await sleep(wait);
+
+    console.log(`\n[${ordinal}/${options.maxPages}] Fetching (depth ${entry.depth}): ${entry.url}`);
+    const page = await fetcher.fetch(entry.url);
+    if (!page) {
+      frontier.complete(id, entry.url, 'skipped', { error: 'not an HTML page' });
+      return;
+    }
+
+    const $ = cheerio.load(page.html);
+    if (entry.depth < options.maxDepth) {
+      $('a[href]').each((_, element) => {
+        const url = normalizeUrl($(element).attr('href')!, page.finalUrl);
+        if (url && !frontier.has(id, url) && shouldCrawl(url)) frontier.add(id, url, entry.depth + 1);
+      });
+    }
+
+    const canonicalHref = $('link[rel="canonical"]').attr('href');
+    const canonical = (canonicalHref && normalizeUrl(canonicalHref, page.finalUrl)) || normalizeUrl(page.finalUrl)!;
+    if (canonicals.has(canonical)) {
+      console.log(`- ⏭️ Same page as ${canonical}, which was already ingested.`);
+      frontier.complete(id, entry.url, 'duplicate', { canonicalUrl: canonical });
+      return;
+    }
+    canonicals.add(canonical);
+
+    const outcome = await ingestHtml(table, canonical, page.html, options);
+    if (outcome === 'empty') console.log('- ⚠️ No content found on page, skipping.');
+    if (outcome === 'unchanged') {
+      console.log('- ⏭️ Page unchanged since the last crawl, skipping.');
+      unchanged++;
+    }
+    if (outcome === 'ingested') ingested++;
+    frontier.complete(id, entry.url, 'done', { canonicalUrl: canonical });
+  };
+
+  const worker = async () => {
+    while (fetched < options.maxPages) {
+      const entry = frontier.claimNext(id);
+      if (!entry) {
+        // Another worker may still discover links; only stop once nothing is in flight.
+        if (inFlight === 0) return;
+        await sleep(100);
+        continue;
+      }
+      inFlight++;
+      try {
+        await processPage(entry, ++fetched);
+      } catch (error) {
+        console.error(`- ❌ Failed to process ${entry.url}:`, (error as Error).message);
+        frontier.complete(id, entry.url, 'failed', { error: (error as Error).message });
+      } finally {
+        inFlight--;
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, worker));
+  } finally {
+    await fetcher.close();
+  }
+
+  frontier.finishRun(id);
+  const remaining = frontier.hasPending(id) ? ' Stopped at the page limit with URLs still queued.' : '';
+  console.log(`\n🏁 Crawl complete. Fetched ${fetched} pages: ${ingested} ingested, ${unchanged} unchanged.${remaining}`);
+}
@@ -0,0 +1,190 @@
+import {
+  ActionRowBuilder,
+  AnyThreadChannel,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  Message,
+} from 'discord.js';
+import type { AiReply, ReplySource } from './agent.js';
+import { escalateTicket, feedbackButtonRow } from './discord-tickets.js';
+import { describeAudience, PUBLIC_AUDIENCE } from './kb-audiences.js';
+import type { StaffAnswer } from './staff-answers.js';
+
+export const DISCORD_MESSAGE_LIMIT = 2000;
+
+// Discord allows about five message edits per five seconds per channel; staying well below keeps streaming smooth.
+const DRAFT_EDIT_INTERVAL_MS = 1200;
+
+// Link buttons fit five to a row; further sources are only listed in the embed.
+const MAX_SOURCE_BUTTONS = 5;
+const MAX_BUTTON_LABEL = 80;
+
+const FENCE = /^```(\S*)/gm;
+
+const EMBED_DESCRIPTION_LIMIT = 4096;
+const STAFF_ANSWER_COLOR = 0x9b59b6;
+
+/**
+ * Works out whether a code block is still open at the end of a piece of text.
+ * @param openFence The fence line (e.g. "```ts") of the block open at the start of the text, or null.
+ * @returns The fence line of the block open at the end, or null.
+ */
+function fenceAfter(text: string, openFence: string | null): string | null {
+  let fence = openFence;
+  for (const match of text.matchAll(FENCE)) fence = fence ? null : match[0];
+  return fence;
+}
+
+/**
+ * Finds where to end a message of at most `max` characters: at a paragraph break, else a line break, else a space,
+ * and never inside a citation or a Markdown link on that line.
+ */
+function findCut(text: string, max: number): number {
+  let cut = text.lastIndexOf('\n\n', max);
+  if (cut < max / 2) cut = text.lastIndexOf('\n', max);
+  if (cut < max / 2) cut = text.lastIndexOf(' ', max);
+  if (cut <= 0) cut = max;
+
+  const lineStart = text.lastIndexOf('\n', cut - 1) + 1;
+  const bracket = text.lastIndexOf('[', cut - 1);
+  if (bracket >= lineStart && bracket > 0 && text.lastIndexOf(']', cut - 1) < bracket) cut = bracket;
+  return cut;
+}
+
+/**
+ * Splits text into messages that fit Discord's length limit. Splits happen at paragraph, line or word boundaries;
+ * a code block that spans a split is closed at the end of one message and reopened, with its language, in the next.
+ */
+export function splitMessage(text: string, limit = DISCORD_MESSAGE_LIMIT): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  let openFence: string | null = null;
+  while (rest.length > 0) {
+    const prefix = openFence ? `${openFence}\n` : '';
+    if (prefix.length + rest.length <= limit) {
+      parts.push(prefix + rest);
+      break;
+    }
+    // Leaves room for the fence that may have to be closed.
+    const cut = findCut(rest, limit - prefix.length - '\n```'.length);
+    const part = rest.slice(0, cut).trimEnd();
+    rest = rest.slice(cut).replace(/^[ \n]+/, '');
+    const fence = fenceAfter(part, openFence);
+    parts.push(`${prefix}${part}${fence ? '\n```' : ''}`);
+    openFence = fence;
+  }
+  return parts;
+}
+
+/**
+ * Turns a partial answer into something safe to show while the rest is being written: cut to a single message,
+ * with any open code block closed and a cursor at the end.
+ */
+function draftPreview(draft: string): string {
+  const cursor = ' ▌';
+  let preview = draft.length > DISCORD_MESSAGE_LIMIT - 10 ? `${draft.slice(0, DISCORD_MESSAGE_LIMIT - 10)}…` : draft;
+  if (fenceAfter(preview, null)) preview += '\n```';
+  return `${preview}${cursor}`;
+}
+
+/**
+ * Builds the embed listing the sources an answer cites, numbered like its citations. Sources that are not public are
+ * marked with who may read them.
+ */
+export function sourcesEmbed(sources: ReplySource[]): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle('Sources')
+    .setDescription(sources.map(source => {
+      const audience = source.audience === PUBLIC_AUDIENCE ? '' : ` 🔒 ${describeAudience(source.audience, true)}`;
+      return `**[${source.number}]** ${source.url ? `[${source.label}](${source.url})` : source.label}${audience}`;
+    }).join('\n'));
+}
+
+/**
+ * Builds the private reply to `/ask`: the answer for the team with its sources, and the reply draft as a code block,
+ * which Discord shows with a copy button.
+ */
+export function staffAnswerMessage({ reply, draft }: StaffAnswer) {
+  const answer = new EmbedBuilder()
+    .setColor(STAFF_ANSWER_COLOR)
+    .setTitle('🔒 Answer for staff')
+    .setDescription(reply.text.length > EMBED_DESCRIPTION_LIMIT ? `${reply.text.slice(0, EMBED_DESCRIPTION_LIMIT - 1)}…` : reply.text)
+    .setFooter({ text: `Confidence: ${reply.confidence} · from public and internal sources` });
+  const header = '**Suggested reply**, to paste into the ticket:\n';
+  // Room for the header and the fences; a fence inside the draft would end the block early.
+  const maxDraft = DISCORD_MESSAGE_LIMIT - header.length - '```\n\n```'.length - 1;
+  const text = draft?.replace(/```/g, "'''");
+  const noDraft = reply.escalate || reply.offersEscalation
+    ? 'No reply draft: the knowledge base has no answer to base one on.'
+    : 'No reply draft: writing one failed, see the log.';
+  return {
+    content: text ? `${header}\`\`\`\n${text.length > maxDraft ? `${text.slice(0, maxDraft)}…` : text}\n\`\`\`` : noDraft,
+    embeds: reply.sources.length > 0 ? [answer, sourcesEmbed(reply.sources)] : [answer],
+    allowedMentions: { parse: [] },
+  };
+}
+
+/**
+ * Builds link buttons to the web sources an answer cites, or null when none of them is on the web.
+ */
+export function sourceButtonRow(sources: ReplySource[]): ActionRowBuilder<ButtonBuilder> | null {
+  const linked = sources.filter(source => source.url).slice(0, MAX_SOURCE_BUTTONS);
+  if (linked.length === 0) return null;
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(linked.map(source => {
+    const label = `[${source.number}] ${source.label}`;
+    return new ButtonBuilder()
+      .setStyle(ButtonStyle.Link)
+      .setLabel(label.length > MAX_BUTTON_LABEL ? `${label.slice(0, MAX_BUTTON_LABEL - 1)}…` : label)
+      .setURL(source.url!);
+  }));
+}
+
+/**
+ * Posts an AI answer in a thread, streaming it into a message that is edited as the model writes. The finished
+ * answer is split over as many messages as it needs; the last one carries the sources embed, the source links and
+ * the feedback buttons. An answer the bot is not confident in escalates the ticket instead.
+ * @param generate Produces the reply, passing drafts to the callback it is given (see `ReplyOptions.onDraft`).
+ * @param escalationReason Recorded with the escalation if the reply calls for one.
+ * @returns The reply, and the message carrying its feedback buttons, which is the one to record the answer under.
+ */
+export async function streamAiReply(
+  thread: AnyThreadChannel,
+  generate: (onDraft: (draft: string) => void) => Promise<AiReply>,
+  escalationReason: string,
+): Promise<{ reply: AiReply; message: Message }> {
+  // Held in an object because it is only ever set from the callbacks below.
+  const streamed: { message: Message | null } = { message: null };
+  let lastEdit = 0;
+  // Sends and edits run one after another, so a slow edit can never land after a later one.
+  let queue: Promise<unknown> = Promise.resolve();
+  const show = (content: string) => {
+    queue = queue
+      .then(async () => { streamed.message = streamed.message ? await streamed.message.edit(content) : await thread.send(content); })
+      .catch(error => console.warn('- Failed to update the streamed reply:', error));
+  };
+
+  const reply = await generate(draft => {
+    if (!draft.trim() || Date.now() - lastEdit < DRAFT_EDIT_INTERVAL_MS) return;
+    lastEdit = Date.now();
+    show(draftPreview(draft));
+  });
+  await queue;
+
+  const text = reply.escalate ? `${reply.text} ${await escalateTicket(thread, escalationReason)}` : reply.text;
+  const parts = splitMessage(text);
+  const last = parts.length - 1;
+  const sourceButtons = reply.escalate ? null : sourceButtonRow(reply.sources);
+  let answerMessage: Message | null = null;
+  for (const [index, content] of parts.entries()) {
+    const final = index === last && !reply.escalate;
+    const payload = {
+      content,
+      embeds: final && reply.sources.length > 0 ? [sourcesEmbed(reply.sources)] : [],
+      components: final ? [...(sourceButtons ? [sourceButtons] : []), feedbackButtonRow()] : [],
+    };
+    // The streamed message becomes the first part of the answer.
+    answerMessage = index === 0 && streamed.message ? await streamed.message.edit(payload) : await thread.send(payload);
+  }
+  return { reply, message: answerMessage! };
+}
@@ -0,0 +1,491 @@
+import {
+    ActionRowBuilder,
+    AnyThreadChannel,
+    ButtonBuilder,
+    ChannelType,
+    Client,
+    ButtonStyle,
+    EmbedBuilder,
+    GuildMember,
+    Message,
+    ModalBuilder,
+    StringSelectMenuBuilder,
+    TextInputBuilder,
+    TextInputStyle,
+} from 'discord.js';
+import { config } from '../config.js';
+import { ticketStore, AuthorType, Ticket, TicketPriority } from './ticket-store.js';
+import { FeedbackVote } from './feedback-store.js';
+import { ResolvedAnswer, resolvedAnswerStore, summarizeResolution } from './resolved-answers.js';
+import { Escalation, escalationStore, summarizeEscalation } from './escalations.js';
+import { guildSettingsStore } from './guild-settings.js';
+import { ReadAttachment, readAttachments } from './attachments.js';
+import { metrics } from './metrics.js';
+import { supportRoleFor, TicketCategory, ticketCategoryStore } from './ticket-categories.js';
+import { chooseForumTags, MAX_FORUM_TAGS, recordForumResolution, RelatedThread } from './forum-threads.js';
+import { KnowledgeAccess, PUBLIC_ACCESS } from './kb-audiences.js';
+
+/** Prefix of the custom IDs of the feedback buttons; the vote follows it, e.g. `feedback:solved`. */
+export const FEEDBACK_BUTTON_PREFIX = 'feedback:';
+
+/**
+ * Prefix of the custom IDs used by the resolution review queue: `resolution:<approve|edit|reject>:<id>` for the buttons
+ * and `resolution:save:<id>` for the edit form.
+ */
+export const RESOLUTION_PREFIX = 'resolution:';
+
+/** Prefix of the custom IDs of the buttons on escalation posts: `escalation:<claim|resolve>:<id>`. */
+export const ESCALATION_PREFIX = 'escalation:';
+
+const REVIEW_COLORS = { pending: 0xf1c40f, approved: 0x2ecc71, rejected: 0x95a5a6 } as const;
+
+const ESCALATION_COLORS = { open: 0xe74c3c, claimed: 0xe67e22, resolved: 0x2ecc71 } as const;
+
+const roleMention = (roleId: string) => `<@&${roleId}>`;
+
+/** Custom ID of the "Create Ticket" button on the ticket panel. */
+export const CREATE_TICKET_BUTTON_ID = 'create_ticket_button';
+
+/**
+ * Prefix of the custom IDs of the ticket intake: `ticket_intake:category` for the category menu and
+ * `ticket_intake:form:<category>` for the form, with an empty category when the server has none.
+ */
+export const TICKET_INTAKE_PREFIX = 'ticket_intake:';
+
+// Words accepted in the intake form's severity field, besides the priorities themselves.
+const SEVERITY_ALIASES: Record<string, TicketPriority> = { minor: 'low', medium: 'normal', major: 'high', critical: 'urgent', blocker: 'urgent' };
+
+/**
+ * Checks whether a thread is a private ticket or a post in the support forum of its server.
+ */
+export function isSupportThread(channel: { guildId: string; parentId: string | null }): boolean {
+    const settings = guildSettingsStore.get(channel.guildId);
+    return !!settings && !!channel.parentId
+        && (channel.parentId === settings.ticket_channel_id || channel.parentId === settings.forum_channel_id);
+}
+
+export const isForumPost = (channel: { guildId: string; parentId: string | null }) =>
+    !!channel.parentId && channel.parentId === guildSettingsStore.get(channel.guildId)?.forum_channel_id;
+
+/**
+ * Checks whether a member is on the support team: they have the server's support role, or the role of a ticket category.
+ */
+export function isSupportStaff(member: GuildMember): boolean {
+    const supportRoleId = guildSettingsStore.get(member.guild.id)?.support_role_id;
+    if (supportRoleId && member.roles.cache.has(supportRoleId)) return true;
+    return ticketCategoryStore.isCategoryRole(member.guild.id, [...member.roles.cache.keys()]);
+}
+
+/**
+ * Works out which knowledge base sources an AI answer posted in a support thread may draw on. Private tickets are only
+ * seen by the members of the thread, so they may also use the sources shared with roles that every customer in it
+ * holds: the opener, and anyone added with /adduser or by a mention. Forum posts are read by everyone, so they only get
+ * public sources. Staff-only sources are never used for posted answers.
+ */
+export async function knowledgeAccessFor(thread: AnyThreadChannel): Promise<KnowledgeAccess> {
+    if (thread.type !== ChannelType.PrivateThread || !ticketStore.get(thread.id)) return PUBLIC_ACCESS;
+    try {
+        const threadMembers = await thread.members.fetch();
+        const readers = await Promise.all([...threadMembers.keys()].map(id => thread.guild.members.fetch(id)));
+        const customers = readers.filter(member => !member.user.bot && !isSupportStaff(member));
+        if (customers.length === 0) return PUBLIC_ACCESS;
+        const [first, ...others] = customers;
+        const roleIds = [...first.roles.cache.keys()].filter(roleId => others.every(member => member.roles.cache.has(roleId)));
+        return { staff: false, roleIds };
+    } catch (error) {
+        // Without knowing who reads the thread, answers may only use what anyone may read.
+        console.warn(`- Could not look up the members of ticket ${thread.name}:`, (error as Error).message);
+        return PUBLIC_ACCESS;
+    }
+}
+
+/**
+ * Returns a mention of the role that handles a support thread, for notices posted in it: the role of the ticket's
+ * category, or the server's support role.
+ */
+export function supportRoleMention(guildId: string, threadId?: string): string {
+    const supportRoleId = supportRoleFor(guildId, threadId ? ticketStore.get(threadId)?.category ?? null : null);
+    return supportRoleId ? roleMention(supportRoleId) : 'support team';
+}
+
+/**
+ * Makes sure a thread has a ticket record, for threads opened before the ticket store existed.
+ * Private ticket threads are owned by the bot, so the first human to post is taken as the opener.
+ */
+export function ensureTicket(thread: AnyThreadChannel, firstAuthor: { id: string; username: string }): void {
+    if (ticketStore.get(thread.id)) return;
+    const openerId = thread.ownerId && thread.ownerId !== thread.client.user.id ? thread.ownerId : firstAuthor.id;
+    ticketStore.open({
+        threadId: thread.id,
+        guildId: thread.guildId,
+        parentId: thread.parentId!,
+        kind: isForumPost(thread) ? 'forum' : 'ticket',
+        name: thread.name,
+        openerId,
+        openerTag: openerId === firstAuthor.id ? firstAuthor.username : openerId,
+    });
+}
+
+export function recordTicketMessage(message: Message<true>): void {
+    const ticket = ticketStore.get(message.channelId);
+    if (!ticket) return;
+    const authorType: AuthorType = message.author.id === message.client.user.id ? 'bot' : message.author.id === ticket.opener_id ? 'user' : 'staff';
+    ticketStore.recordMessage({
+        messageId: message.id,
+        threadId: message.channelId,
+        authorId: message.author.id,
+        authorTag: message.author.username,
+        authorType,
+        content: message.content,
+        createdAt: message.createdAt,
+    });
+}
+
+/**
+ * Reads the files attached to a message in a support thread, and tells the user about any the bot had to skip.
+ * The caller records the result with `attachmentStore` once the text has passed the abuse guard.
+ */
+export async function readMessageAttachments(message: Message<true>): Promise<ReadAttachment[]> {
+    if (message.attachments.size === 0) return [];
+    const { read, skipped } = await readAttachments(message.attachments.map(file => ({ name: file.name, url: file.url, size: file.size })));
+    console.log(`- Read ${read.length} of ${message.attachments.size} attachment(s).`);
+    if (skipped.length > 0) {
+        await message.reply(`I couldn't read ${skipped.map(file => `**${file.name}** (${file.reason})`).join(', ')}, so I'll go without ${skipped.length === 1 ? 'it' : 'them'}. Pasting the relevant part as text works too.`);
+    }
+    return read;
+}
+
+/**
+ * Pulls the thread's full history from Discord into the ticket store, so the transcript also covers
+ * messages sent while the bot was offline.
+ */
+export async function backfillTicketMessages(thread: AnyThreadChannel): Promise<void> {
+    let before: string | undefined;
+    while (true) {
+        const batch = await thread.messages.fetch({ limit: 100, before });
+        batch.forEach(recordTicketMessage);
+        if (batch.size < 100) break;
+        before = batch.last()!.id;
+    }
+}
+
+/**
+ * Checks whether a member is the owner of a support thread: the Discord thread owner, or the recorded ticket opener
+ * for private tickets, which are owned by the bot.
+ */
+export async function isThreadOwner(thread: AnyThreadChannel, member: GuildMember): Promise<boolean> {
+    const owner = await thread.fetchOwner();
+    return member.id === owner?.id || member.id === ticketStore.get(thread.id)?.opener_id;
+}
+
+/**
+ * Builds the "Solved it / Not helpful / Talk to a human" buttons attached to every AI answer.
+ */
+export function feedbackButtonRow(): ActionRowBuilder<ButtonBuilder> {
+    const button = (vote: FeedbackVote, label: string, emoji: string, style: ButtonStyle) =>
+        new ButtonBuilder().setCustomId(`${FEEDBACK_BUTTON_PREFIX}${vote}`).setLabel(label).setEmoji(emoji).setStyle(style);
+
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+        button('solved', 'Solved it', '✅', ButtonStyle.Success),
+        button('not_helpful', 'Not helpful', '👎', ButtonStyle.Secondary),
+        button('human', 'Talk to a human', '🙋', ButtonStyle.Primary),
+    );
+}
+
+/**
+ * Escalates a ticket to the support team. Shared by the `escalation_request` intent, an accepted escalation offer,
+ * low-confidence answers, `/escalate` and the "Talk to a human" button.
+ * With an escalation channel configured, a summary of the ticket is posted there for staff to claim; otherwise the
+ * support role is pinged in the thread itself.
+ * @param reason Why the ticket is escalated, shown to staff, e.g. "The user asked for a human".
+ * @returns The notice to post in the thread.
+ */
+export async function escalateTicket(thread: AnyThreadChannel, reason: string): Promise<string> {
+    ticketStore.markEscalated(thread.id);
+    ticketStore.clearEscalationOffer(thread.id);
+    metrics.escalations.inc({ channel: 'discord' });
+    const settings = guildSettingsStore.get(thread.guildId);
+    const inThreadNotice = `I've notified the support team (${supportRoleMention(thread.guildId, thread.id)}) to look into this ticket personally.`;
+    if (!settings?.escalation_channel_id) return inThreadNotice;
+    if (escalationStore.getActive(thread.id)) return 'This ticket is already with the support team, and someone will join you here shortly.';
+
+    const channel = await thread.client.channels.fetch(settings.escalation_channel_id);
+    if (!channel?.isSendable()) {
+        console.warn(`⚠️ Escalation channel ${settings.escalation_channel_id} is not a channel the bot can post in.`);
+        return inThreadNotice;
+    }
+    const summary = await summarizeEscalation(thread.id);
+    const entry = escalationStore.open({ threadId: thread.id, guildId: thread.guildId, reason, issue: summary.issue, botAttempts: summary.tried });
+    const roleId = supportRoleFor(thread.guildId, ticketStore.get(thread.id)?.category ?? null) ?? settings.support_role_id;
+    const post = await channel.send({
+        content: roleMention(roleId),
+        allowedMentions: { roles: [roleId] },
+        ...escalationMessage(entry),
+    });
+    escalationStore.setMessage(entry.id, post.id);
+    console.log(`🚨 Escalated ${thread.name} to the support team (#${entry.id}): ${reason}`);
+    return "I've passed this ticket on to the support team with a summary of our conversation. Someone will join you here shortly.";
+}
+
+/**
+ * Builds the escalation channel post for an escalation: the ticket summary, its state and the Claim/Resolve buttons.
+ */
+export function escalationMessage(entry: Escalation) {
+    const ticket = ticketStore.get(entry.thread_id);
+    const embed = new EmbedBuilder()
+        .setColor(ESCALATION_COLORS[entry.status])
+        .setTitle(`🚨 Escalation: ${ticket?.name ?? entry.thread_id}`.slice(0, 256))
+        .setURL(`https://discord.com/channels/${entry.guild_id}/${entry.thread_id}`)
+        .addFields(
+            { name: 'Issue', value: entry.issue.slice(0, 1024) },
+            { name: 'What the bot tried', value: entry.bot_attempts.slice(0, 1024) },
+            { name: 'Reason', value: entry.reason.slice(0, 1024) },
+            { name: 'Opened by', value: ticket ? `<@${ticket.opener_id}>` : 'Unknown', inline: true },
+            { name: 'Priority', value: ticket?.priority ?? 'normal', inline: true },
+            { name: 'Thread', value: `<#${entry.thread_id}>`, inline: true },
+        )
+        .setFooter({ text: `Escalation #${entry.id} · ${entry.status}` })
+        .setTimestamp(new Date(`${entry.created_at}Z`));
+    if (ticket?.category) embed.addFields({ name: 'Category', value: ticket.category, inline: true });
+    if (entry.claimed_by) embed.addFields({ name: 'Claimed by', value: `<@${entry.claimed_by}>`, inline: true });
+    if (entry.resolved_by) embed.addFields({ name: 'Resolved by', value: `<@${entry.resolved_by}>`, inline: true });
+
+    const button = (action: string, label: string, style: ButtonStyle) =>
+        new ButtonBuilder().setCustomId(`${ESCALATION_PREFIX}${action}:${entry.id}`).setLabel(label).setStyle(style);
+    const buttons = [
+        ...(entry.status === 'open' ? [button('claim', 'Claim', ButtonStyle.Primary)] : []),
+        ...(entry.status !== 'resolved' ? [button('resolve', 'Resolve', ButtonStyle.Success)] : []),
+    ];
+    const components = buttons.length > 0 ? [new ActionRowBuilder<ButtonBuilder>().addComponents(buttons)] : [];
+    return { embeds: [embed], components };
+}
+
+/**
+ * Redraws an escalation's post after its state changed outside of its own buttons, e.g. through `/claim` or `/close`.
+ */
+export async function refreshEscalationMessage(client: Client, entry: Escalation): Promise<void> {
+    const channelId = guildSettingsStore.get(entry.guild_id)?.escalation_channel_id;
+    if (!entry.message_id || !channelId) return;
+    const channel = await client.channels.fetch(channelId);
+    if (!channel?.isTextBased()) return;
+    const post = await channel.messages.fetch(entry.message_id);
+    await post.edit(escalationMessage(entry));
+}
+
+/**
+ * Re-pings the support role about escalations that nobody claimed within `escalations.slaMinutes`. Once the
+ * re-pings in `escalations.maxRepings` are used up, pings the server's escalation role instead, once, if it has one.
+ */
+export async function checkEscalationSlas(client: Client): Promise<void> {
+    const { slaMinutes, maxRepings } = config.escalations;
+    for (const entry of escalationStore.listOverdue(slaMinutes)) {
+        const settings = guildSettingsStore.get(entry.guild_id);
+        if (!settings?.escalation_channel_id) continue;
+        // The first post counts as a ping, so `pings - 1` re-pings have been sent so far.
+        const further = entry.pings - 1 >= maxRepings;
+        if (further && !settings.escalation_role_id) continue;
+        const channel = await client.channels.fetch(settings.escalation_channel_id);
+        if (!channel?.isSendable()) continue;
+        const roleId = further
+            ? settings.escalation_role_id!
+            : supportRoleFor(entry.guild_id, ticketStore.get(entry.thread_id)?.category ?? null) ?? settings.support_role_id;
+        await channel.send({
+            content: `${roleMention(roleId)} Escalation #${entry.id} for <#${entry.thread_id}> has not been claimed for ${slaMinutes} minutes.`,
+            allowedMentions: { roles: [roleId] },
+            ...(entry.message_id ? { reply: { messageReference: entry.message_id, failIfNotExists: false } } : {}),
+        });
+        escalationStore.recordPing(entry.id, further);
+        console.log(`⏰ Escalation #${entry.id} is past its SLA; ${further ? 'escalated further' : 're-pinged the support team'}.`);
+    }
+}
+
+/**
+ * Builds the review queue post for a question/answer pair. Once the pair has been reviewed the buttons are removed
+ * and the footer says who reviewed it.
+ */
+export function resolutionReviewMessage(entry: ResolvedAnswer) {
+    const embed = new EmbedBuilder()
+        .setColor(REVIEW_COLORS[entry.status])
+        .setTitle(`Q&A from ticket: ${entry.thread_name}`.slice(0, 256))
+        .setURL(`https://discord.com/channels/${entry.guild_id}/${entry.thread_id}`)
+        .setDescription(`**Question**\n${entry.question}\n\n**Answer**\n${entry.answer}`.slice(0, 4096))
+        .setFooter({ text: entry.status === 'pending' ? `Review #${entry.id}` : `Review #${entry.id} · ${entry.status} by ${entry.reviewed_by}` });
+
+    const button = (action: string, label: string, style: ButtonStyle) =>
+        new ButtonBuilder().setCustomId(`${RESOLUTION_PREFIX}${action}:${entry.id}`).setLabel(label).setStyle(style);
+    const components = entry.status === 'pending'
+        ? [new ActionRowBuilder<ButtonBuilder>().addComponents(
+            button('approve', 'Approve', ButtonStyle.Success),
+            button('edit', 'Edit & approve', ButtonStyle.Secondary),
+            button('reject', 'Reject', ButtonStyle.Danger),
+        )]
+        : [];
+    return { embeds: [embed], components };
+}
+
+/**
+ * Builds the form reviewers use to correct a pair before approving it.
+ */
+export function resolutionEditModal(entry: ResolvedAnswer): ModalBuilder {
+    const input = (id: string, label: string, value: string) => new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder().setCustomId(id).setLabel(label).setStyle(TextInputStyle.Paragraph).setValue(value.slice(0, 4000)).setMaxLength(4000).setRequired(true));
+    return new ModalBuilder()
+        .setCustomId(`${RESOLUTION_PREFIX}save:${entry.id}`)
+        .setTitle(`Edit review #${entry.id}`)
+        .addComponents(input('question', 'Question', entry.question), input('answer', 'Answer', entry.answer));
+}
+
+/**
+ * Summarizes a closed ticket into a question/answer pair and posts it to the review channel for staff approval.
+ * Does nothing when no review channel is configured or the ticket was not resolved.
+ */
+export async function queueResolutionForReview(thread: AnyThreadChannel): Promise<void> {
+    const reviewChannelId = guildSettingsStore.get(thread.guildId)?.review_channel_id;
+    if (!reviewChannelId) return;
+
+    const pair = await summarizeResolution(thread.id);
+    if (!pair) {
+        console.log(`- No reusable resolution found in ${thread.name}.`);
+        return;
+    }
+    const entry = resolvedAnswerStore.create({ threadId: thread.id, guildId: thread.guildId, threadName: thread.name, ...pair });
+    const channel = await thread.client.channels.fetch(reviewChannelId);
+    if (!channel?.isSendable()) {
+        console.warn(`⚠️ Review channel ${reviewChannelId} is not a channel the bot can post in.`);
+        return;
+    }
+    const reviewMessage = await channel.send(resolutionReviewMessage(entry));
+    resolvedAnswerStore.setReviewMessage(entry.id, reviewMessage.id);
+    console.log(`📝 Queued the resolution of ${thread.name} for review (#${entry.id}).`);
+}
+
+/**
+ * Builds the ticket panel: the message with the "Create Ticket" button that `/setup` posts in the ticket channel.
+ */
+export function ticketPanelMessage() {
+    const ticketEmbed = new EmbedBuilder()
+        .setColor(0x0099ff)
+        .setTitle('Create a Support Ticket')
+        .setDescription('Click the button below to open a private ticket with our support team. Tell us what is wrong in the short form that opens, and the bot will answer right away.')
+        .setFooter({ text: 'You will be added to a private thread.' });
+
+    const ticketButton = new ButtonBuilder()
+        .setCustomId(CREATE_TICKET_BUTTON_ID)
+        .setLabel('Create Ticket')
+        .setStyle(ButtonStyle.Primary)
+        .setEmoji('🎟️');
+
+    return { embeds: [ticketEmbed], components: [new ActionRowBuilder<ButtonBuilder>().addComponents(ticketButton)] };
+}
+
+/**
+ * Builds the first step of the ticket intake in a server with ticket categories: a menu to pick the category from.
+ */
+export function ticketCategoryMenu(categories: TicketCategory[]) {
+    const menu = new StringSelectMenuBuilder()
+        .setCustomId(`${TICKET_INTAKE_PREFIX}category`)
+        .setPlaceholder('What do you need help with?')
+        .addOptions(categories.map(category => ({
+            label: category.name,
+            value: category.name,
+            ...(category.description ? { description: category.description } : {}),
+        })));
+    return { content: 'Pick the category that fits your issue best.', components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu)] };
+}
+
+/**
+ * Builds the ticket intake form: product and version, severity and a description of the issue.
+ * @param category The category picked in the menu, or null in servers without categories.
+ */
+export function ticketIntakeModal(category: string | null): ModalBuilder {
+    const input = (id: string, label: string, style: TextInputStyle, maxLength: number, required: boolean, placeholder: string) =>
+        new ActionRowBuilder<TextInputBuilder>().addComponents(new TextInputBuilder()
+            .setCustomId(id).setLabel(label).setStyle(style).setMaxLength(maxLength).setRequired(required).setPlaceholder(placeholder));
+    return new ModalBuilder()
+        .setCustomId(`${TICKET_INTAKE_PREFIX}form:${category ?? ''}`)
+        .setTitle((category ? `New ticket: ${category}` : 'New support ticket').slice(0, 45))
+        .addComponents(
+            input('product', 'Product and version', TextInputStyle.Short, 100, false, 'e.g. Desktop app 4.2.1 on Windows 11'),
+            input('severity', 'Severity', TextInputStyle.Short, 20, false, 'low, normal, high or urgent'),
+            input('description', 'What is the issue?', TextInputStyle.Paragraph, config.abuse.maxMessageLength, true, 'What happened, what you expected, and any error message.'),
+        );
+}
+
+/**
+ * Reads the severity typed into the intake form as a ticket priority. Anything unrecognised counts as normal.
+ */
+export function parseSeverity(text: string): TicketPriority {
+    const word = text.trim().toLowerCase();
+    if (word === 'low' || word === 'normal' || word === 'high' || word === 'urgent') return word;
+    return SEVERITY_ALIASES[word] ?? 'normal';
+}
+
+/**
+ * Names a ticket thread after its number, e.g. `ticket-0042-alice`.
+ */
+export function ticketThreadName(number: number, username: string): string {
+    return `ticket-${String(number).padStart(4, '0')}-${username}`.slice(0, 100);
+}
+
+/**
+ * Builds the first message of a ticket opened from the intake form: what the user filled in, for staff joining later.
+ */
+export function ticketIntakeMessage(ticket: Ticket, description: string) {
+    const embed = new EmbedBuilder()
+        .setColor(0x0099ff)
+        .setTitle(`Ticket #${ticket.ticket_number}`)
+        .setDescription(description.slice(0, 4096))
+        .addFields(
+            { name: 'Category', value: ticket.category ?? 'None', inline: true },
+            { name: 'Product and version', value: ticket.product_version ?? 'Not given', inline: true },
+            { name: 'Severity', value: ticket.priority, inline: true },
+            { name: 'Handled by', value: supportRoleMention(ticket.guild_id, ticket.thread_id), inline: true },
+        );
+    return {
+        content: `Hi <@${ticket.opener_id}>, welcome to your private support ticket! Here is what you told us. I'll reply below in a moment.`,
+        embeds: [embed],
+    };
+}
+
+/**
+ * Applies the forum's tags that fit a new post, as picked by the model, next to any the poster chose themselves.
+ * The solved tag is never applied this way.
+ */
+export async function autoTagForumPost(thread: AnyThreadChannel, question: string): Promise<void> {
+    if (!config.forum.autoTag || thread.parent?.type !== ChannelType.GuildForum) return;
+    const solvedTagName = config.forum.solvedTagName.toLowerCase();
+    const candidates = thread.parent.availableTags.filter(tag => tag.name.toLowerCase() !== solvedTagName && !thread.appliedTags.includes(tag.id));
+    const names = await chooseForumTags(thread.name, question, candidates.map(tag => tag.name), MAX_FORUM_TAGS - thread.appliedTags.length);
+    if (names.length === 0) return;
+    await thread.setAppliedTags([...thread.appliedTags, ...candidates.filter(tag => names.includes(tag.name)).map(tag => tag.id)]);
+    console.log(`- Tagged the post: ${names.join(', ')}`);
+}
+
+/**
+ * Builds the notice linking a new forum post to similar past ones.
+ */
+export function relatedThreadsMessage(related: RelatedThread[]): string {
+    return `🔗 This looks related to:\n${related.map(thread => `- <#${thread.threadId}>${thread.solved ? ' ✅ solved' : ''}`).join('\n')}`;
+}
+
+/**
+ * Marks a forum post as solved: applies the forum's solved tag, if it has one, and stores the resolution with the post
+ * in the forum index, so later posts about the same problem are pointed to it.
+ * @param resolution The answer that solved it. When not given, it is summarized from the thread.
+ */
+export async function markForumPostSolved(thread: AnyThreadChannel, resolution?: string): Promise<void> {
+    const solvedTagName = config.forum.solvedTagName.toLowerCase();
+    const solvedTag = thread.parent?.type === ChannelType.GuildForum
+        ? thread.parent.availableTags.find(tag => tag.name.toLowerCase() === solvedTagName)
+        : undefined;
+    if (solvedTag && !thread.appliedTags.includes(solvedTag.id)) {
+        // Posts hold at most five tags; the solved tag takes the place of the last one if need be.
+        await thread.setAppliedTags([...thread.appliedTags.slice(0, MAX_FORUM_TAGS - 1), solvedTag.id]);
+    }
+    const answer = resolution ?? (await summarizeResolution(thread.id))?.answer;
+    if (answer) {
+        const question = ticketStore.getMessages(thread.id).find(message => message.author_type === 'user')?.content ?? '';
+        await recordForumResolution({ threadId: thread.id, guildId: thread.guildId, title: thread.name, question }, answer);
+    }
+    console.log(`✅ Marked forum post ${thread.name} as solved${solvedTag ? '' : `; the forum has no "${config.forum.solvedTagName}" tag`}.`);
+}
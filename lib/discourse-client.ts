@@ -0,0 +1,87 @@
+import axios from 'axios';
+
+/**
+ * The subset of a Discourse post object that the bot relies on.
+ */
+export interface DiscoursePost {
+  id: number;
+  topic_id: number;
+  post_number: number;
+  post_type: number;
+  username: string;
+  cooked: string;
+  raw?: string;
+  topic_title?: string;
+  reply_to_post_number?: number | null;
+}
+
+/**
+ * The subset of a Discourse topic object that the bot relies on.
+ */
+export interface DiscourseTopic {
+  id: number;
+  title: string;
+  post_stream: { posts: DiscoursePost[] };
+}
+
+export interface DiscourseClientOptions {
+  baseUrl: string;
+  apiKey: string;
+  apiUsername: string;
+}
+
+/**
+ * Creates a minimal client for the Discourse REST API.
+ * Every request goes to `options.baseUrl`, so the client can be pointed at a local stand-in server.
+ * @param options The forum's base URL and the API credentials to authenticate with.
+ * @returns An object exposing the Discourse endpoints used by the bot.
+ */
+export function createDiscourseClient(options: DiscourseClientOptions) {
+  const http = axios.create({
+    baseURL: options.baseUrl.replace(/\/+$/, ''),
+    headers: {
+      'Api-Key': options.apiKey,
+      'Api-Username': options.apiUsername,
+      'Content-Type': 'application/json',
+    },
+    timeout: 30000,
+  });
+
+  return {
+    /**
+     * Fetches the most recent posts across all topics, newest first.
+     * @param before Only return posts with an ID lower than this, for paging backwards.
+     */
+    getLatestPosts: async (before?: number): Promise<DiscoursePost[]> => {
+      const res = await http.get('/posts.json', { params: before ? { before } : undefined });
+      return res.data.latest_posts ?? [];
+    },
+
+    /**
+     * Fetches a topic together with the first page of its post stream.
+     * @param topicId The ID of the topic to fetch.
+     */
+    getTopic: async (topicId: number): Promise<DiscourseTopic> => {
+      const res = await http.get(`/t/${topicId}.json`);
+      return res.data;
+    },
+
+    /**
+     * Creates a new post in an existing topic.
+     * @param topicId The topic to post in.
+     * @param raw The Markdown body of the post.
+     * @param replyToPostNumber The post number within the topic that this post replies to.
+     * @returns The created post.
+     */
+    createPost: async (topicId: number, raw: string, replyToPostNumber?: number): Promise<DiscoursePost> => {
+      const res = await http.post('/posts.json', {
+        topic_id: topicId,
+        raw,
+        reply_to_post_number: replyToPostNumber,
+      });
+      return res.data;
+    },
+  };
+}
+
+export type DiscourseClient = ReturnType<typeof createDiscourseClient>;
@@ -0,0 +1,120 @@
+import { convert } from 'html-to-text';
+import { config } from '../config.js';
+import { ACCEPT_PATTERN, DECLINE_PATTERN, determineUserIntent, formatSourcesMarkdown, generateAiReply } from './agent.js';
+import { ChatMessage } from './llm.js';
+import { DiscourseClient, DiscoursePost } from './discourse-client.js';
+import { getStateDb } from './state-db.js';
+import { withLogContext } from './logger.js';
+import { metrics } from './metrics.js';
+
+const db = getStateDb();
+
+const isHandledStmt = db.prepare('SELECT 1 FROM replied_posts WHERE id = ?');
+const markHandledStmt = db.prepare('INSERT OR IGNORE INTO replied_posts (id) VALUES (?)');
+const recordFailureStmt = db.prepare(`
+    INSERT INTO discourse_post_failures (post_id, attempts, last_error) VALUES (?, 1, ?)
+    ON CONFLICT(post_id) DO UPDATE SET attempts = attempts + 1, last_error = excluded.last_error, updated_at = CURRENT_TIMESTAMP
+    RETURNING attempts
+`);
+// The bot's latest offer to escalate in each topic, until the user accepts or declines it or asks something else.
+const getOfferStmt = db.prepare('SELECT post_id FROM discourse_escalation_offers WHERE topic_id = ?');
+const setOfferStmt = db.prepare('INSERT OR REPLACE INTO discourse_escalation_offers (topic_id, post_id) VALUES (?, ?)');
+const clearOfferStmt = db.prepare('DELETE FROM discourse_escalation_offers WHERE topic_id = ?');
+
+/** How often a post whose handling fails is tried, one poll apart, before it is skipped for good. */
+export const MAX_POST_ATTEMPTS = 3;
+
+// Discourse post_type 1 is a regular post; moderator actions, whispers and small actions are skipped.
+const REGULAR_POST_TYPE = 1;
+
+const isOwnPost = (post: DiscoursePost) => post.username.toLowerCase() === config.discourse.apiUsername.toLowerCase();
+const postText = (post: DiscoursePost) => post.raw ?? convert(post.cooked, { wordwrap: false });
+
+/**
+ * Creates the Discourse worker, which answers forum posts through the given client. The client decides which forum
+ * that is, so tests can point it at a local stand-in server.
+ */
+export function createDiscourseWorker(discourse: DiscourseClient) {
+    async function handlePost(post: DiscoursePost): Promise<void> {
+        const text = postText(post);
+        const intent = await determineUserIntent(text);
+        console.log(`📬 Post ${post.id} in topic ${post.topic_id} ("${post.topic_title ?? ''}"). Intent: ${intent}`);
+
+        switch (intent) {
+            case 'question': {
+                // A new question moves the conversation on, so an earlier escalation offer no longer stands.
+                clearOfferStmt.run(post.topic_id);
+                const topic = await discourse.getTopic(post.topic_id);
+                const conversation_history: ChatMessage[] = topic.post_stream.posts
+                    .filter(p => p.post_number <= post.post_number && p.post_type === REGULAR_POST_TYPE)
+                    .map(p => ({ role: isOwnPost(p) ? 'assistant' : 'user', content: postText(p) }));
+                const aiReply = await generateAiReply(topic.title, conversation_history, {
+                    namespace: config.discourse.kbNamespace,
+                    conversationId: `discourse:${topic.id}`,
+                });
+                metrics.replies.inc({ channel: 'discourse', outcome: aiReply.escalate ? 'escalated' : 'answered' });
+                if (aiReply.escalate) metrics.escalations.inc({ channel: 'discourse' });
+                const replyText = aiReply.escalate
+                    ? `${aiReply.text} I've notified the support team (@${config.discourse.supportGroupName}) to look into this topic personally.`
+                    : `${aiReply.text}${formatSourcesMarkdown(aiReply.sources)}`;
+                const reply = await discourse.createPost(post.topic_id, replyText, post.post_number);
+                markHandledStmt.run(reply.id);
+                if (aiReply.offersEscalation && !aiReply.escalate) setOfferStmt.run(post.topic_id, reply.id);
+                break;
+            }
+            case 'escalation_request':
+                metrics.escalations.inc({ channel: 'discourse' });
+                await discourse.createPost(post.topic_id, `I understand. I've notified the support team (@${config.discourse.supportGroupName}) to look into this topic personally.`, post.post_number);
+                clearOfferStmt.run(post.topic_id);
+                break;
+            case 'follow_up':
+            case 'other': {
+                const pendingOffer = getOfferStmt.get(post.topic_id);
+                if (pendingOffer && DECLINE_PATTERN.test(text)) {
+                    console.log(`- User declined escalation for topic ${post.topic_id}.`);
+                    await discourse.createPost(post.topic_id, 'No problem. Feel free to ask another question, or ask for a human if you change your mind.', post.post_number);
+                    clearOfferStmt.run(post.topic_id);
+                } else if (pendingOffer && ACCEPT_PATTERN.test(text)) {
+                    console.log(`- User accepted the escalation offer in topic ${post.topic_id}.`);
+                    metrics.escalations.inc({ channel: 'discourse' });
+                    await discourse.createPost(post.topic_id, `Understood. I have notified the support team (@${config.discourse.supportGroupName}) for you.`, post.post_number);
+                    clearOfferStmt.run(post.topic_id);
+                } else {
+                    console.log(`- Ignoring post with intent '${intent}'.`);
+                }
+                break;
+            }
+        }
+    }
+
+    return {
+        /**
+         * Fetches the latest forum posts and handles every one that has not been seen before.
+         * Each post is recorded in the state DB once handled, so a restart never replies to it twice. A post whose handling
+         * fails, e.g. because the forum or the model was unreachable, is tried again on the next polls, up to `MAX_POST_ATTEMPTS`
+         * times.
+         */
+        pollOnce: async (): Promise<void> => {
+            const latestPosts = await discourse.getLatestPosts();
+            const pending = latestPosts
+                .filter(post => post.post_type === REGULAR_POST_TYPE && !isOwnPost(post) && !isHandledStmt.get(post.id))
+                .sort((a, b) => a.id - b.id);
+
+            for (const post of pending) {
+                try {
+                    // Everything logged while handling the post, and the model calls it makes, belong to its topic.
+                    await withLogContext({ correlationId: `discourse:${post.topic_id}` }, () => handlePost(post));
+                    markHandledStmt.run(post.id);
+                } catch (error) {
+                    const { attempts } = recordFailureStmt.get(post.id, (error as Error).message ?? String(error)) as { attempts: number };
+                    if (attempts >= MAX_POST_ATTEMPTS) {
+                        console.error(`- Giving up on Discourse post ${post.id} after ${attempts} failed attempts:`, error);
+                        markHandledStmt.run(post.id);
+                    } else {
+                        console.error(`- Error processing Discourse post ${post.id} (attempt ${attempts} of ${MAX_POST_ATTEMPTS}), will retry:`, error);
+                    }
+                }
+            }
+        },
+    };
+}
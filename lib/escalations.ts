@@ -0,0 +1,113 @@
+import { llm } from './llm.js';
+import { prompts } from '../prompts.js';
+import { getStateDb } from './state-db.js';
+import { renderTranscriptForModel, ticketStore } from './ticket-store.js';
+
+export type EscalationStatus = 'open' | 'claimed' | 'resolved';
+
+/**
+ * A ticket handed to the support team, as posted in the escalation channel.
+ */
+export interface Escalation {
+  id: number;
+  thread_id: string;
+  guild_id: string;
+  /** Why the ticket was escalated, e.g. "The user asked for a human". */
+  reason: string;
+  issue: string;
+  bot_attempts: string;
+  status: EscalationStatus;
+  /** The escalation's message in the escalation channel. */
+  message_id: string | null;
+  /** Times the support role has been pinged, including the first post. */
+  pings: number;
+  last_pinged_at: string;
+  escalated_further: number;
+  claimed_by: string | null;
+  claimed_at: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Persistent record of escalations and their SLA state, stored in the state DB.
+ */
+export const escalationStore = {
+  open: (escalation: { threadId: string; guildId: string; reason: string; issue: string; botAttempts: string }): Escalation => {
+    const { lastInsertRowid } = getStateDb().prepare(`
+      INSERT INTO escalations (thread_id, guild_id, reason, issue, bot_attempts) VALUES (?, ?, ?, ?, ?)
+    `).run(escalation.threadId, escalation.guildId, escalation.reason, escalation.issue, escalation.botAttempts);
+    return escalationStore.get(Number(lastInsertRowid))!;
+  },
+
+  get: (id: number): Escalation | undefined =>
+    getStateDb().prepare('SELECT * FROM escalations WHERE id = ?').get(id) as Escalation | undefined,
+
+  /**
+   * Returns the escalation of a ticket that has not been resolved yet, if any. A ticket has at most one.
+   */
+  getActive: (threadId: string): Escalation | undefined =>
+    getStateDb().prepare(`SELECT * FROM escalations WHERE thread_id = ? AND status != 'resolved' ORDER BY id DESC`).get(threadId) as Escalation | undefined,
+
+  listByThread: (threadId: string): Escalation[] =>
+    getStateDb().prepare('SELECT * FROM escalations WHERE thread_id = ? ORDER BY id').all(threadId) as Escalation[],
+
+  setMessage: (id: number, messageId: string): void => {
+    getStateDb().prepare('UPDATE escalations SET message_id = ? WHERE id = ?').run(messageId, id);
+  },
+
+  claim: (id: number, userId: string): void => {
+    getStateDb().prepare(`UPDATE escalations SET status = 'claimed', claimed_by = ?, claimed_at = CURRENT_TIMESTAMP WHERE id = ?`).run(userId, id);
+  },
+
+  resolve: (id: number, userId: string): void => {
+    getStateDb().prepare(`UPDATE escalations SET status = 'resolved', resolved_by = ?, resolved_at = CURRENT_TIMESTAMP WHERE id = ?`).run(userId, id);
+  },
+
+  /**
+   * Records another ping of the support role, or of the escalation role when `further` is set.
+   */
+  recordPing: (id: number, further: boolean): void => {
+    getStateDb().prepare(`
+      UPDATE escalations SET pings = pings + 1, last_pinged_at = CURRENT_TIMESTAMP, escalated_further = MAX(escalated_further, ?) WHERE id = ?
+    `).run(further ? 1 : 0, id);
+  },
+
+  /**
+   * Lists unclaimed escalations whose last ping is older than the SLA and that can still be escalated further.
+   */
+  listOverdue: (slaMinutes: number): Escalation[] =>
+    getStateDb().prepare(`
+      SELECT * FROM escalations
+      WHERE status = 'open' AND escalated_further = 0 AND last_pinged_at <= datetime('now', ?)
+      ORDER BY id
+    `).all(`-${slaMinutes} minutes`) as Escalation[],
+};
+
+/**
+ * Briefs the support team on a ticket: what the user needs, and what the bot already tried.
+ * Falls back to the user's first message and the bot's reply count when the model's answer is unusable.
+ * @param threadId The ticket's thread ID; its messages must already be in the ticket store.
+ */
+export async function summarizeEscalation(threadId: string): Promise<{ issue: string; tried: string }> {
+  const ticket = ticketStore.get(threadId);
+  const messages = ticketStore.getMessages(threadId);
+  const firstQuestion = messages.find(m => m.author_type === 'user')?.content ?? ticket?.name ?? 'Unknown';
+  const botReplies = messages.filter(m => m.author_type === 'bot').length;
+  const fallback = {
+    issue: firstQuestion.slice(0, 500),
+    tried: botReplies > 0 ? `The bot replied ${botReplies} time(s) without resolving the issue.` : 'Nothing yet.',
+  };
+
+  try {
+    const response = await llm.chat([{ role: 'user', content: prompts.summarize_escalation(ticket?.name ?? threadId, renderTranscriptForModel(messages)) }], { temperature: 0, purpose: 'summarize_escalation' });
+    const json = /\{[\s\S]*\}/.exec(response.content ?? '')?.[0];
+    const parsed = json ? JSON.parse(json) : null;
+    if (typeof parsed?.issue !== 'string' || typeof parsed?.tried !== 'string' || !parsed.issue.trim()) return fallback;
+    return { issue: parsed.issue.trim(), tried: parsed.tried.trim() || fallback.tried };
+  } catch (error) {
+    console.error(`- Failed to summarize ticket ${threadId} for escalation:`, error);
+    return fallback;
+  }
+}
@@ -0,0 +1,257 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import { llm } from './llm.js';
+import { parseChunkId, vectorStore } from './vector-store.js';
+import { generateAiReply } from './agent.js';
+
+/**
+ * One question of the golden dataset, a line of `evals/golden.jsonl`.
+ */
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  /** Source IDs that answer the question, e.g. `doc:guide.md`. Empty when the knowledge base cannot answer it, so the bot should refuse. */
+  expectedSources: string[];
+  /** Short phrases a correct answer contains, matched case-insensitively. */
+  keyFacts?: string[];
+}
+
+/**
+ * What happened to one golden question in a run.
+ */
+export interface QuestionResult {
+  id: string;
+  /** Source IDs retrieved for the question, best first, without duplicates. */
+  retrieved: string[];
+  /** Share of the expected sources among the top k retrieved, or null when the question expects none. */
+  recall: number | null;
+  /** 1 / rank of the first expected source retrieved, 0 when none was, or null when the question expects none. */
+  reciprocalRank: number | null;
+  /** The rest is left out when the run only evaluated retrieval. */
+  answer?: string;
+  promptVersion?: string;
+  refused?: boolean;
+  /** Source IDs of the passages the answer cited. */
+  cited?: string[];
+  /** Cited sources that are among the expected ones. */
+  correctCitations?: number;
+  /** Key facts found in the answer. */
+  factsFound?: string[];
+}
+
+/**
+ * Averages over a run's questions; null where no question qualified, e.g. no citations at all.
+ */
+export interface EvalMetrics {
+  recallAtK: number | null;
+  mrr: number | null;
+  /** Share of all citations that point at an expected source. */
+  citationAccuracy: number | null;
+  /** Share of answerable questions the bot refused to answer. */
+  refusalRate: number | null;
+  /** Share of unanswerable questions the bot correctly refused. */
+  correctRefusalRate: number | null;
+  /** Share of key facts, across all questions, that the answers contained. */
+  keyFactRecall: number | null;
+}
+
+export interface EvalRun {
+  startedAt: string;
+  dataset: string;
+  namespace: string;
+  k: number;
+  retrievalOnly: boolean;
+  provider: string;
+  chatModel: string;
+  embeddingModel: string;
+  /** The reply prompt version the answers came from, if any were generated. */
+  promptVersion: string | null;
+  metrics: EvalMetrics;
+  results: QuestionResult[];
+}
+
+/**
+ * A metric's value in the previous and the current run.
+ */
+export interface MetricChange {
+  metric: keyof EvalMetrics;
+  before: number | null;
+  after: number | null;
+}
+
+/**
+ * Reads a golden dataset: one JSON question per line; blank lines and lines starting with `//` are skipped.
+ * @throws If a line is not valid JSON or misses a required field, naming the line.
+ */
+export function loadGoldenDataset(file: string): GoldenQuestion[] {
+  const questions: GoldenQuestion[] = [];
+  fs.readFileSync(file, 'utf-8').split('\n').forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('//')) return;
+    let entry: GoldenQuestion;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${file}:${index + 1} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (typeof entry.id !== 'string' || typeof entry.question !== 'string' || !Array.isArray(entry.expectedSources)) {
+      throw new Error(`${file}:${index + 1} needs an "id", a "question" and an "expectedSources" array.`);
+    }
+    questions.push(entry);
+  });
+  return questions;
+}
+
+const mean = (values: number[]): number | null => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/**
+ * Runs one golden question through the bot's retrieval and, unless `retrievalOnly`, through `generateAiReply`.
+ */
+export async function evaluateQuestion(question: GoldenQuestion, options: { namespace: string; k: number; retrievalOnly: boolean }): Promise<QuestionResult> {
+  const docs = await vectorStore.similaritySearch(question.question, options.k, options.namespace);
+  const retrieved = [...new Set(docs.map(doc => parseChunkId(doc.id).sourceId))];
+  const expected = new Set(question.expectedSources);
+  const firstHit = retrieved.findIndex(source => expected.has(source));
+  const result: QuestionResult = {
+    id: question.id,
+    retrieved,
+    recall: expected.size ? retrieved.filter(source => expected.has(source)).length / expected.size : null,
+    reciprocalRank: expected.size ? (firstHit === -1 ? 0 : 1 / (firstHit + 1)) : null,
+  };
+  if (options.retrievalOnly) return result;
+
+  const reply = await generateAiReply(question.question, [{ role: 'user', content: question.question }], { namespace: options.namespace });
+  const cited = reply.sources.map(source => parseChunkId(source.id).sourceId);
+  const answer = reply.text.toLowerCase();
+  return {
+    ...result,
+    answer: reply.text,
+    promptVersion: reply.promptVersion,
+    refused: reply.confidence === 'low' || reply.offersEscalation,
+    cited,
+    correctCitations: cited.filter(source => expected.has(source)).length,
+    factsFound: (question.keyFacts ?? []).filter(fact => answer.includes(fact.toLowerCase())),
+  };
+}
+
+/**
+ * Works out a run's metrics from its per-question results.
+ */
+export function summarizeResults(questions: GoldenQuestion[], results: QuestionResult[]): EvalMetrics {
+  const answered = results.filter(result => result.refused !== undefined);
+  const byId = new Map(questions.map(question => [question.id, question]));
+  const answerable = answered.filter(result => byId.get(result.id)!.expectedSources.length > 0);
+  const unanswerable = answered.filter(result => byId.get(result.id)!.expectedSources.length === 0);
+  const citations = answered.reduce((sum, result) => sum + result.cited!.length, 0);
+  const facts = answered.reduce((sum, result) => sum + (byId.get(result.id)!.keyFacts?.length ?? 0), 0);
+  return {
+    recallAtK: mean(results.flatMap(result => result.recall ?? [])),
+    mrr: mean(results.flatMap(result => result.reciprocalRank ?? [])),
+    citationAccuracy: citations ? answered.reduce((sum, result) => sum + result.correctCitations!, 0) / citations : null,
+    refusalRate: answerable.length ? answerable.filter(result => result.refused).length / answerable.length : null,
+    correctRefusalRate: unanswerable.length ? unanswerable.filter(result => result.refused).length / unanswerable.length : null,
+    keyFactRecall: facts ? answered.reduce((sum, result) => sum + result.factsFound!.length, 0) / facts : null,
+  };
+}
+
+/**
+ * Runs every golden question and works out the metrics. Questions run one at a time, so the numbers do not depend on
+ * rate limits, and a local model is not flooded.
+ */
+export async function runEvaluation(dataset: string, options: { namespace: string; k: number; retrievalOnly: boolean }): Promise<EvalRun> {
+  const questions = loadGoldenDataset(dataset);
+  const startedAt = new Date().toISOString();
+  const results: QuestionResult[] = [];
+  for (const [index, question] of questions.entries()) {
+    console.log(`\n❓ [${index + 1}/${questions.length}] ${question.id}: ${question.question}`);
+    results.push(await evaluateQuestion(question, options));
+  }
+  return {
+    startedAt,
+    dataset: path.resolve(dataset),
+    namespace: options.namespace,
+    k: options.k,
+    retrievalOnly: options.retrievalOnly,
+    provider: llm.name,
+    chatModel: llm.chatModel,
+    embeddingModel: llm.embeddingModel,
+    promptVersion: results.find(result => result.promptVersion)?.promptVersion ?? null,
+    metrics: summarizeResults(questions, results),
+    results,
+  };
+}
+
+/**
+ * Saved runs, one JSON file each in `config.paths.evalRuns`, named after the time they started.
+ */
+export const evalRunStore = {
+  /**
+   * @returns The path of the file the run was saved to.
+   */
+  save: (run: EvalRun): string => {
+    fs.mkdirSync(config.paths.evalRuns, { recursive: true });
+    const file = path.join(config.paths.evalRuns, `${run.startedAt.replace(/[:.]/g, '-')}.json`);
+    fs.writeFileSync(file, JSON.stringify(run, null, 2));
+    return file;
+  },
+
+  load: (file: string): EvalRun => JSON.parse(fs.readFileSync(file, 'utf-8')) as EvalRun,
+
+  /**
+   * Finds the latest saved run that is comparable to the given one: same dataset, namespace, k, mode and models.
+   * Runs against different models are not compared, as their scores are on different scales.
+   */
+  findPrevious: (run: EvalRun): EvalRun | undefined => {
+    if (!fs.existsSync(config.paths.evalRuns)) return undefined;
+    return fs.readdirSync(config.paths.evalRuns)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .reverse()
+      .map(file => evalRunStore.load(path.join(config.paths.evalRuns, file)))
+      .find(previous => previous.startedAt < run.startedAt
+        && previous.dataset === run.dataset
+        && previous.namespace === run.namespace
+        && previous.k === run.k
+        && previous.retrievalOnly === run.retrievalOnly
+        && previous.provider === run.provider
+        && previous.chatModel === run.chatModel
+        && previous.embeddingModel === run.embeddingModel);
+  },
+};
+
+/**
+ * Compares two runs metric by metric.
+ */
+export function diffMetrics(before: EvalRun, after: EvalRun): MetricChange[] {
+  return (Object.keys(after.metrics) as (keyof EvalMetrics)[])
+    .map(metric => ({ metric, before: before.metrics[metric] ?? null, after: after.metrics[metric] }));
+}
+
+/**
+ * Describes what changed for each question that is in both runs: sources found or lost, refusals, and key facts.
+ * @returns One line per question that changed, keyed by question ID.
+ */
+export function diffQuestions(before: EvalRun, after: EvalRun): Map<string, string[]> {
+  const previous = new Map(before.results.map(result => [result.id, result]));
+  const changes = new Map<string, string[]>();
+  for (const result of after.results) {
+    const old = previous.get(result.id);
+    if (!old) continue;
+    const notes: string[] = [];
+    if (result.reciprocalRank !== old.reciprocalRank) {
+      notes.push(`first expected source ${old.reciprocalRank ? `at rank ${Math.round(1 / old.reciprocalRank)}` : 'not found'} → ${result.reciprocalRank ? `at rank ${Math.round(1 / result.reciprocalRank)}` : 'not found'}`);
+    }
+    if (result.recall !== old.recall) notes.push(`recall ${old.recall?.toFixed(2)} → ${result.recall?.toFixed(2)}`);
+    if (old.refused !== undefined && result.refused !== undefined && result.refused !== old.refused) {
+      notes.push(result.refused ? 'now refused' : 'now answered');
+    }
+    if (old.factsFound && result.factsFound) {
+      const lost = old.factsFound.filter(fact => !result.factsFound!.includes(fact));
+      const gained = result.factsFound.filter(fact => !old.factsFound!.includes(fact));
+      if (lost.length) notes.push(`lost facts: ${lost.join(', ')}`);
+      if (gained.length) notes.push(`new facts: ${gained.join(', ')}`);
+    }
+    if (notes.length) changes.set(result.id, notes);
+  }
+  return changes;
+}
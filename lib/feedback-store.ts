@@ -0,0 +1,102 @@
+import { getStateDb } from './state-db.js';
+import { parseChunkId } from './vector-store.js';
+import type { AiReply, ConfidenceLevel, GroundingVerdict } from './agent.js';
+
+/** A reader's verdict on an AI answer, one per button under the answer. */
+export type FeedbackVote = 'solved' | 'not_helpful' | 'human';
+
+export const FEEDBACK_VOTES: FeedbackVote[] = ['solved', 'not_helpful', 'human'];
+
+export interface AiAnswer {
+  message_id: string;
+  thread_id: string;
+  question: string;
+  answer: string;
+  /** JSON array of the chunk IDs retrieved for the answer. */
+  source_ids: string;
+  prompt_version: string;
+  created_at: string;
+  confidence: ConfidenceLevel | null;
+  top_score: number | null;
+  grounding: GroundingVerdict | null;
+  /** ISO 639-1 code of the language the question was written in, if it could be told. */
+  language: string | null;
+}
+
+/**
+ * Votes received by the answers that drew on one knowledge base source.
+ */
+export interface SourceFeedbackStats {
+  sourceId: string;
+  answers: number;
+  solved: number;
+  notHelpful: number;
+  human: number;
+  /** Share of votes that were "solved", from 0 to 1, or null when the source has no votes yet. */
+  helpfulRate: number | null;
+}
+
+/**
+ * Persistent record of the answers the bot posts and the feedback readers leave on them, stored in the state DB.
+ */
+export const feedbackStore = {
+  /**
+   * Records a reply that was posted, keyed by the ID of the message it was sent in, together with how it was produced.
+   */
+  recordAnswer: (messageId: string, threadId: string, question: string, reply: AiReply): void => {
+    getStateDb().prepare(`
+      INSERT OR REPLACE INTO ai_answers (message_id, thread_id, question, answer, source_ids, prompt_version, confidence, top_score, grounding, language)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(messageId, threadId, question, reply.text, JSON.stringify(reply.sourceIds), reply.promptVersion, reply.confidence, reply.topScore, reply.grounding, reply.language);
+  },
+
+  getAnswer: (messageId: string): AiAnswer | undefined =>
+    getStateDb().prepare('SELECT * FROM ai_answers WHERE message_id = ?').get(messageId) as AiAnswer | undefined,
+
+  /**
+   * Records a user's vote on an answer. Each user has one vote per answer; voting again replaces it.
+   */
+  recordVote: (messageId: string, userId: string, vote: FeedbackVote): void => {
+    getStateDb().prepare(`
+      INSERT INTO answer_feedback (message_id, user_id, vote) VALUES (?, ?, ?)
+      ON CONFLICT (message_id, user_id) DO UPDATE SET vote = excluded.vote, created_at = CURRENT_TIMESTAMP
+    `).run(messageId, userId, vote);
+  },
+
+  /**
+   * Adds up the votes on every answer per source document it was built from.
+   * @param guildId Only count answers given in this Discord server's tickets; all answers when omitted.
+   * @returns One entry per source that was retrieved for at least one answer, most-voted first.
+   */
+  sourceStats: (guildId?: string): SourceFeedbackStats[] => {
+    const rows = getStateDb().prepare(`
+      SELECT a.source_ids,
+             COALESCE(SUM(f.vote = 'solved'), 0) AS solved,
+             COALESCE(SUM(f.vote = 'not_helpful'), 0) AS not_helpful,
+             COALESCE(SUM(f.vote = 'human'), 0) AS human
+      FROM ai_answers a LEFT JOIN answer_feedback f ON f.message_id = a.message_id
+      ${guildId ? 'WHERE a.thread_id IN (SELECT thread_id FROM tickets WHERE guild_id = @guildId)' : ''}
+      GROUP BY a.message_id
+    `).all(...(guildId ? [{ guildId }] : [])) as { source_ids: string; solved: number; not_helpful: number; human: number }[];
+
+    const stats = new Map<string, SourceFeedbackStats>();
+    for (const row of rows) {
+      const sourceIds = new Set((JSON.parse(row.source_ids) as string[]).map(id => parseChunkId(id).sourceId));
+      for (const sourceId of sourceIds) {
+        const entry = stats.get(sourceId) ?? { sourceId, answers: 0, solved: 0, notHelpful: 0, human: 0, helpfulRate: null };
+        entry.answers++;
+        entry.solved += row.solved;
+        entry.notHelpful += row.not_helpful;
+        entry.human += row.human;
+        stats.set(sourceId, entry);
+      }
+    }
+
+    return [...stats.values()]
+      .map(entry => {
+        const votes = entry.solved + entry.notHelpful + entry.human;
+        return { ...entry, helpfulRate: votes > 0 ? entry.solved / votes : null };
+      })
+      .sort((a, b) => (b.solved + b.notHelpful + b.human) - (a.solved + a.notHelpful + a.human) || b.answers - a.answers);
+  },
+};
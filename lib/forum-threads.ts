@@ -0,0 +1,113 @@
+import { connect, Table } from '@lancedb/lancedb';
+import { config } from '../config.js';
+import { prompts } from '../prompts.js';
+import { llm } from './llm.js';
+
+/**
+ * A past forum post that resembles a new one.
+ */
+export interface RelatedThread {
+  threadId: string;
+  title: string;
+  url: string;
+  /** Whether the poster confirmed it was solved; its resolution is then part of the index. */
+  solved: boolean;
+  /** Cosine similarity between the two posts, 1 for a perfect match. */
+  score: number;
+}
+
+// Forum posts are kept apart from the knowledge base: they are unreviewed, and are only ever linked, never quoted.
+const FORUM_TABLE = 'forum_threads';
+
+// Discord allows at most five tags on a forum post.
+export const MAX_FORUM_TAGS = 5;
+
+// Embedding more of a post than this adds little to finding similar ones.
+const MAX_EMBEDDED_CHARS = 4000;
+
+const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * Opens the forum index, creating an empty one if it does not exist yet.
+ */
+async function openForumTable(): Promise<Table> {
+  const db = await connect(config.paths.lanceDb);
+  try {
+    return await db.openTable(FORUM_TABLE);
+  } catch {
+    console.log(`✨ Forum index "${FORUM_TABLE}" not found, creating a new one...`);
+    const sampleData = [{ id: '', guild_id: '', title: '', url: '', question: '', resolution: '', vector: Array(llm.embeddingDimensions).fill(0) }];
+    const table = await db.createTable(FORUM_TABLE, sampleData);
+    await table.delete("id = ''");
+    return table;
+  }
+}
+
+/**
+ * Adds a forum post to the forum index, or updates it, e.g. once its resolution is known. One row is kept per post.
+ * @param post The post's question is its title and first message; its resolution the answer that solved it, if any.
+ */
+export async function indexForumThread(post: { threadId: string; guildId: string; title: string; question: string; resolution?: string | null }): Promise<void> {
+  const resolution = post.resolution?.trim() ?? '';
+  const text = `${post.title}\n\n${post.question}${resolution ? `\n\nResolution: ${resolution}` : ''}`.slice(0, MAX_EMBEDDED_CHARS);
+  const table = await openForumTable();
+  await table.mergeInsert('id').whenMatchedUpdateAll().whenNotMatchedInsertAll().execute([{
+    id: post.threadId,
+    guild_id: post.guildId,
+    title: post.title,
+    url: `https://discord.com/channels/${post.guildId}/${post.threadId}`,
+    question: post.question,
+    resolution,
+    vector: await llm.embed(text),
+  }]);
+}
+
+/**
+ * Stores the resolution of a post that is already in the forum index. Posts from before the index existed are added.
+ */
+export async function recordForumResolution(post: { threadId: string; guildId: string; title: string; question: string }, resolution: string): Promise<void> {
+  const table = await openForumTable();
+  const [stored] = await table.query().where(`id = ${quote(post.threadId)}`).select(['question']).limit(1).toArray();
+  await indexForumThread({ ...post, question: stored?.question || post.question, resolution });
+}
+
+/**
+ * Finds the past posts of a server most similar to a new one, best first, leaving out those below
+ * `config.forum.relatedMinScore`. Failures are logged and yield no related posts, as they are only a hint.
+ * @param excludeThreadId The new post itself, in case it was indexed already.
+ */
+export async function findRelatedThreads(guildId: string, text: string, excludeThreadId: string): Promise<RelatedThread[]> {
+  if (config.forum.relatedThreads <= 0) return [];
+  try {
+    const table = await openForumTable();
+    const rows = await table.vectorSearch(await llm.embed(text.slice(0, MAX_EMBEDDED_CHARS)))
+      .distanceType('cosine')
+      .where(`guild_id = ${quote(guildId)} AND id != ${quote(excludeThreadId)}`)
+      .select(['id', 'title', 'url', 'resolution'])
+      .limit(config.forum.relatedThreads)
+      .toArray();
+    return rows
+      .map(row => ({ threadId: row.id, title: row.title, url: row.url, solved: !!row.resolution, score: 1 - row._distance }))
+      .filter(thread => thread.score >= config.forum.relatedMinScore);
+  } catch (error) {
+    console.warn('⚠️ Could not search the forum index for related posts:', (error as Error).message);
+    return [];
+  }
+}
+
+/**
+ * Asks the model which of a forum's tags fit a new post.
+ * @param available The names of the tags the bot may apply.
+ * @returns Names from `available`, at most `max`; none when the model's answer was unusable.
+ */
+export async function chooseForumTags(title: string, post: string, available: string[], max: number): Promise<string[]> {
+  if (available.length === 0 || max <= 0) return [];
+  try {
+    const response = await llm.chat([{ role: 'user', content: prompts.classify_forum_tags(title, post, available, max) }], { maxTokens: 50, temperature: 0, purpose: 'forum_tags' });
+    const chosen = (response.content ?? '').split(',').map(name => name.replace(/^["'\s]+|["'.\s]+$/g, '').toLowerCase());
+    return available.filter(name => chosen.includes(name.toLowerCase())).slice(0, max);
+  } catch (error) {
+    console.warn('⚠️ Could not pick tags for the forum post:', (error as Error).message);
+    return [];
+  }
+}
@@ -0,0 +1,106 @@
+import { config } from '../config.js';
+import { getStateDb } from './state-db.js';
+import { DEFAULT_NAMESPACE } from './kb-namespaces.js';
+
+/**
+ * Where the bot works in one Discord server, as chosen with `/setup`.
+ */
+export interface GuildSettings {
+  guild_id: string;
+  /** Text channel holding the ticket panel; private tickets are threads of it. */
+  ticket_channel_id: string;
+  support_role_id: string;
+  /** Forum whose posts the bot answers; null to leave forums alone. */
+  forum_channel_id: string | null;
+  /** Where Q&A pairs from closed tickets wait for approval; null turns the review queue off. */
+  review_channel_id: string | null;
+  /** Where escalations are posted; null pings the support role inside the ticket instead. */
+  escalation_channel_id: string | null;
+  escalation_role_id: string | null;
+  /** The knowledge base namespace answers in this server come from. */
+  kb_namespace: string;
+  /** Product name and support address mentioned in replies; null falls back to `config.bot`. */
+  product_name: string | null;
+  support_email: string | null;
+  /** The ticket panel last posted by `/setup`, so posting it again replaces it. */
+  panel_message_id: string | null;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+export type GuildSettingsUpdate = Partial<Omit<GuildSettings, 'guild_id' | 'updated_by' | 'updated_at'>>;
+
+/**
+ * The settings of the server configured through `DISCORD_*` environment variables, used until `/setup` is run there,
+ * so single-server deployments keep working unchanged.
+ */
+function settingsFromEnvironment(guildId: string): GuildSettings | undefined {
+  const { discord } = config;
+  if (!discord.guildId || guildId !== discord.guildId || !discord.ticketChannelId || !discord.supportRoleId) return undefined;
+  return {
+    guild_id: guildId,
+    ticket_channel_id: discord.ticketChannelId,
+    support_role_id: discord.supportRoleId,
+    forum_channel_id: discord.forumChannelId || null,
+    review_channel_id: discord.reviewChannelId || null,
+    escalation_channel_id: discord.escalationChannelId || null,
+    escalation_role_id: discord.escalationRoleId || null,
+    kb_namespace: DEFAULT_NAMESPACE,
+    product_name: null,
+    support_email: null,
+    panel_message_id: null,
+    updated_by: null,
+    updated_at: null,
+  };
+}
+
+/**
+ * Per-server settings stored in the state DB.
+ */
+export const guildSettingsStore = {
+  /**
+   * Returns a server's settings, or undefined if the bot has not been set up there.
+   */
+  get: (guildId: string): GuildSettings | undefined =>
+    (getStateDb().prepare('SELECT * FROM guild_settings WHERE guild_id = ?').get(guildId) as GuildSettings | undefined)
+      ?? settingsFromEnvironment(guildId),
+
+  /**
+   * Applies changes on top of a server's current settings. A server set up for the first time needs at least a ticket
+   * channel and a support role.
+   * @returns The settings after the update.
+   */
+  update: (guildId: string, changes: GuildSettingsUpdate, updatedBy: string): GuildSettings => {
+    const current = guildSettingsStore.get(guildId);
+    const merged = { ...current, ...changes };
+    if (!merged.ticket_channel_id || !merged.support_role_id) {
+      throw new Error('A ticket channel and a support role are required the first time the bot is set up.');
+    }
+    getStateDb().prepare(`
+      INSERT INTO guild_settings (guild_id, ticket_channel_id, support_role_id, forum_channel_id, review_channel_id, escalation_channel_id,
+                                  escalation_role_id, kb_namespace, product_name, support_email, panel_message_id, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (guild_id) DO UPDATE SET
+        ticket_channel_id = excluded.ticket_channel_id, support_role_id = excluded.support_role_id,
+        forum_channel_id = excluded.forum_channel_id, review_channel_id = excluded.review_channel_id,
+        escalation_channel_id = excluded.escalation_channel_id, escalation_role_id = excluded.escalation_role_id,
+        kb_namespace = excluded.kb_namespace, product_name = excluded.product_name, support_email = excluded.support_email,
+        panel_message_id = excluded.panel_message_id,
+        updated_by = excluded.updated_by, updated_at = excluded.updated_at
+    `).run(
+      guildId,
+      merged.ticket_channel_id,
+      merged.support_role_id,
+      merged.forum_channel_id ?? null,
+      merged.review_channel_id ?? null,
+      merged.escalation_channel_id ?? null,
+      merged.escalation_role_id ?? null,
+      merged.kb_namespace ?? DEFAULT_NAMESPACE,
+      merged.product_name ?? null,
+      merged.support_email ?? null,
+      merged.panel_message_id ?? null,
+      updatedBy,
+    );
+    return guildSettingsStore.get(guildId)!;
+  },
+};
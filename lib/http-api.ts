@@ -0,0 +1,492 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Server } from 'http';
+import express, { NextFunction, Request, RequestHandler, Response } from 'express';
+import { connect } from '@lancedb/lancedb';
+import { config } from '../config.js';
+import { generateAiReply } from './agent.js';
+import { checkEarlierMessages, checkIncomingMessage } from './abuse-guard.js';
+import { ChatMessage } from './llm.js';
+import { crawlSite } from './crawler.js';
+import { docsPath, ingestDocs, ingestPage } from './ingestion.js';
+import { DEFAULT_NAMESPACE, isValidNamespace } from './kb-namespaces.js';
+import { listStoredSources, manifest, openKnowledgeTable, removeSource, setSourceAudience } from './knowledge-base.js';
+import { parseAudience, SourceAudience } from './kb-audiences.js';
+import { escalationStore } from './escalations.js';
+import { renderTranscriptMarkdown, TicketKind, TicketStatus, ticketStore } from './ticket-store.js';
+import { withLogContext } from './logger.js';
+import { metrics, renderMetrics } from './metrics.js';
+import { usageStore } from './usage.js';
+
+/**
+ * What a key may do: 'admin' keys reach every route, 'ask' keys only `/health`, `/ready` and `/ask`.
+ */
+export type ApiAccess = 'admin' | 'ask';
+
+export interface ApiServerOptions {
+  /** Reports the Discord gateway connection for `/ready`; left out when the API runs without the Discord bot. */
+  discordStatus?: () => { connected: boolean; ping: number };
+}
+
+export type IngestJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+/**
+ * An ingestion started through the API. Jobs run one at a time, in the order they were queued.
+ */
+export interface IngestJob {
+  id: number;
+  /** 'docs' for the namespace's knowledge_base folder, otherwise the URL of a page or, with `crawl`, a site. */
+  target: string;
+  namespace: string;
+  crawl: boolean;
+  /** Who may read the sources the job ingests, or null to keep their audience (new sources are public). */
+  audience: SourceAudience | null;
+  status: IngestJobStatus;
+  error: string | null;
+  queuedAt: string;
+  finishedAt: string | null;
+}
+
+// The files `ingestDocs` reads; uploads of other types would never be ingested.
+const UPLOAD_NAME = /^[\w][\w .-]{0,150}\.(md|txt|pdf)$/i;
+const MAX_HISTORY_MESSAGES = 50;
+// Caps the history of an /ask request as a whole; each message is also capped at `config.abuse.maxMessageLength`.
+const MAX_HISTORY_CHARS = 20_000;
+const MAX_CRAWL_PAGES = 500;
+// Finished jobs are forgotten after this many newer ones.
+const MAX_KEPT_JOBS = 50;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 366;
+
+const jobs: IngestJob[] = [];
+let jobQueue: Promise<void> = Promise.resolve();
+let nextJobId = 1;
+
+/**
+ * Queues an ingestion job behind the ones already queued, so two jobs never write to the knowledge base at once.
+ */
+function queueIngestJob(target: string, namespace: string, options: { crawl: boolean; force: boolean; maxPages: number; audience?: SourceAudience }): IngestJob {
+  const job: IngestJob = { id: nextJobId++, target, namespace, crawl: options.crawl, audience: options.audience ?? null, status: 'queued', error: null, queuedAt: new Date().toISOString(), finishedAt: null };
+  jobs.push(job);
+  if (jobs.length > MAX_KEPT_JOBS) jobs.splice(0, jobs.length - MAX_KEPT_JOBS);
+
+  jobQueue = jobQueue.then(async () => {
+    job.status = 'running';
+    console.log(`🌐 Running ingestion job ${job.id}: ${job.crawl ? 'crawl of ' : ''}${job.target} into "${job.namespace}".`);
+    try {
+      const ingestOptions = { force: options.force, namespace, audience: options.audience };
+      if (target === 'docs') {
+        await ingestDocs(ingestOptions);
+      } else if (options.crawl) {
+        await crawlSite(target, {
+          ...ingestOptions,
+          maxPages: options.maxPages,
+          maxDepth: config.crawler.maxDepth,
+          include: [],
+          exclude: [],
+          concurrency: config.crawler.concurrency,
+          delayMs: config.crawler.delayMs,
+          mode: config.crawler.mode,
+          useSitemap: true,
+          fresh: false,
+        });
+      } else {
+        await ingestPage(await openKnowledgeTable(namespace), target, ingestOptions);
+      }
+      job.status = 'done';
+    } catch (error) {
+      console.error(`- Ingestion job ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.error = (error as Error).message;
+    }
+    job.finishedAt = new Date().toISOString();
+  });
+  return job;
+}
+
+const sha256 = (text: string) => crypto.createHash('sha256').update(text).digest();
+
+/**
+ * Reads the key sent with a request, from an `Authorization: Bearer <key>` or `X-API-Key` header.
+ */
+function keyOf(req: Request): string | undefined {
+  return (req.get('x-api-key') ?? req.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1])?.trim();
+}
+
+/**
+ * Returns a short ID for the key sent with a request, derived from its hash so the key itself never shows in
+ * stored IDs or logs.
+ */
+function keyIdOf(req: Request): string {
+  return sha256(keyOf(req) ?? '').toString('hex').slice(0, 12);
+}
+
+/**
+ * Works out what the key sent with a request may do.
+ * Keys are compared by their hashes in constant time, so response times do not give away how much of a key matched.
+ */
+function accessOf(req: Request): ApiAccess | null {
+  const key = keyOf(req);
+  if (!key) return null;
+  const hash = sha256(key);
+  const matches = (keys: string[]) => keys.some(candidate => crypto.timingSafeEqual(sha256(candidate), hash));
+  if (matches(config.api.keys)) return 'admin';
+  if (matches(config.api.askKeys)) return 'ask';
+  return null;
+}
+
+/**
+ * Rejects requests without a key that grants the given access. Admin keys pass everywhere.
+ */
+function requireAccess(access: ApiAccess): RequestHandler {
+  return (req, res, next) => {
+    const granted = accessOf(req);
+    if (!granted) {
+      res.status(401).json({ error: 'A valid API key is required, as "Authorization: Bearer <key>" or "X-API-Key: <key>".' });
+    } else if (access === 'admin' && granted !== 'admin') {
+      res.status(403).json({ error: 'This key may only use /ask.' });
+    } else {
+      next();
+    }
+  };
+}
+
+/**
+ * Lets the websites in `config.api.corsOrigins` call the API from the browser.
+ */
+const cors: RequestHandler = (req, res, next) => {
+  const origin = req.get('origin');
+  if (origin && config.api.corsOrigins.includes(origin)) {
+    res.set({
+      'Access-Control-Allow-Origin': origin,
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-API-Key',
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE',
+      'Vary': 'Origin',
+    });
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(204);
+      return;
+    }
+  }
+  next();
+};
+
+/**
+ * Passes errors of async route handlers on to the error handler, which Express 4 does not do by itself.
+ */
+const route = (handler: (req: Request, res: Response) => Promise<unknown>): RequestHandler =>
+  (req, res, next) => { handler(req, res).catch(next); };
+
+/**
+ * Reads the `namespace` of a request body or query, answering 400 and returning null when it is not valid.
+ */
+function namespaceOf(value: unknown, res: Response): string | null {
+  const namespace = value === undefined || value === '' ? DEFAULT_NAMESPACE : value;
+  if (typeof namespace === 'string' && isValidNamespace(namespace)) return namespace;
+  res.status(400).json({ error: '"namespace" must be up to 40 lowercase letters, digits, "-" and "_".' });
+  return null;
+}
+
+/**
+ * Reads the optional `audience` of a request body (see `SourceAudience`).
+ * @returns The audience, undefined when none was given, or null after answering 400 when it is not valid.
+ */
+function audienceOf(value: unknown, res: Response): SourceAudience | undefined | null {
+  if (value === undefined) return undefined;
+  try {
+    if (typeof value === 'string') return parseAudience(value);
+  } catch {
+    // Answered below.
+  }
+  res.status(400).json({ error: '"audience" must be "public", "staff" or a comma-separated list of "role:<role ID>".' });
+  return null;
+}
+
+const isChatHistory = (value: unknown): value is ChatMessage[] => Array.isArray(value)
+  && value.length <= MAX_HISTORY_MESSAGES
+  && value.every(m => m && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string'
+    && m.content.length <= config.abuse.maxMessageLength)
+  && value.reduce((total, m) => total + m.content.length, 0) <= MAX_HISTORY_CHARS;
+
+/**
+ * Builds the HTTP API: health and readiness checks, `/ask` for channels other than Discord and Discourse, such as a
+ * website widget, knowledge base management, read-only access to tickets, Prometheus metrics and model spend. Every
+ * route needs an API key.
+ */
+export function createApiApp(options: ApiServerOptions = {}): express.Express {
+  const app = express();
+  app.disable('x-powered-by');
+  app.use(cors);
+  app.use(express.json({ limit: config.api.maxBodyBytes }));
+
+  app.get('/health', requireAccess('ask'), (_req, res) => {
+    res.json({ status: 'ok', instanceId: config.bot.instanceId, uptimeSeconds: Math.round(process.uptime()) });
+  });
+
+  app.get('/ready', requireAccess('ask'), route(async (_req, res) => {
+    const checks: Record<string, { ok: boolean; detail?: string }> = {};
+    if (options.discordStatus) {
+      const discord = options.discordStatus();
+      checks.discord = discord.connected ? { ok: true, detail: `gateway ping ${discord.ping} ms` } : { ok: false, detail: 'not connected to the gateway' };
+    }
+    try {
+      const tables = await (await connect(config.paths.lanceDb)).tableNames();
+      checks.lancedb = { ok: true, detail: `${tables.length} table(s)` };
+    } catch (error) {
+      checks.lancedb = { ok: false, detail: (error as Error).message };
+    }
+    const ready = Object.values(checks).every(check => check.ok);
+    res.status(ready ? 200 : 503).json({ status: ready ? 'ready' : 'not ready', checks });
+  }));
+
+  app.post('/ask', requireAccess('ask'), route(async (req, res) => {
+    const { question, history = [], conversationId, namespace: requestedNamespace, userId, title } = req.body ?? {};
+    if (typeof question !== 'string' || !question.trim()) {
+      res.status(400).json({ error: '"question" must be a non-empty string.' });
+      return;
+    }
+    if (!isChatHistory(history)) {
+      res.status(400).json({
+        error: `"history" must be up to ${MAX_HISTORY_MESSAGES} messages of the form {"role": "user" | "assistant", "content": "..."}, oldest first, `
+          + `of at most ${config.abuse.maxMessageLength} characters each and ${MAX_HISTORY_CHARS} in all.`,
+      });
+      return;
+    }
+    for (const [name, value] of Object.entries({ conversationId, userId, title })) {
+      if (value !== undefined && (typeof value !== 'string' || value.length > 100)) {
+        res.status(400).json({ error: `"${name}" must be a string of at most 100 characters.` });
+        return;
+      }
+    }
+    const namespace = namespaceOf(requestedNamespace, res);
+    if (!namespace) return;
+
+    // One-off questions are logged and costed under an ID of their own, which is sent back with the answer.
+    // Conversation IDs are chosen by the client, so they are scoped to its key: another key reusing one can neither
+    // read nor overwrite the conversation's summary.
+    const correlationId = conversationId ? `api:${keyIdOf(req)}:${conversationId}` : `api:${crypto.randomUUID()}`;
+    await withLogContext({ correlationId }, async () => {
+      // Rate limits apply per caller and per conversation, as they do per Discord user and thread. The caller is its IP
+      // address: ask keys are public, so the userId a request sends is only a label, and a new one must not reset them.
+      const caller = `ip:${req.ip ?? 'unknown'}`;
+      const incoming = { guildId: 'api', channelId: conversationId ? correlationId : caller, userId: caller, userTag: userId ?? caller, content: question };
+      let verdict = await checkIncomingMessage(incoming);
+      // The history is the client's word for what was said before, assistant turns included, so all of it is screened
+      // like the question.
+      if (verdict.allowed) verdict = await checkEarlierMessages(incoming, history.map(m => m.content));
+      if (!verdict.allowed) {
+        const rateLimited = verdict.reason === 'user_rate_limit' || verdict.reason === 'channel_rate_limit';
+        res.status(rateLimited ? 429 : 422).json({ error: verdict.notice ?? 'Too many requests. Please wait before asking again.', reason: verdict.reason });
+        return;
+      }
+
+      const reply = await generateAiReply(title ?? question.slice(0, 100), [...history, { role: 'user', content: question }], {
+        namespace,
+        conversationId: conversationId ? correlationId : undefined,
+      });
+      metrics.replies.inc({ channel: 'api', outcome: reply.escalate ? 'escalated' : 'answered' });
+      res.json({
+        correlationId,
+        answer: reply.text,
+        sources: reply.sources,
+        confidence: reply.confidence,
+        escalate: reply.escalate,
+        offersEscalation: reply.offersEscalation,
+        language: reply.language,
+        promptVersion: reply.promptVersion,
+      });
+    });
+  }));
+
+  app.get('/kb/sources', requireAccess('admin'), route(async (req, res) => {
+    const namespace = namespaceOf(req.query.namespace, res);
+    if (!namespace) return;
+    const stored = await listStoredSources(await openKnowledgeTable(namespace));
+    res.json({
+      namespace,
+      sources: stored.map(source => ({ ...source, ingestedAt: manifest.get(namespace, source.sourceId)?.ingested_at ?? null })),
+    });
+  }));
+
+  app.post('/kb/sources', requireAccess('admin'), route(async (req, res) => {
+    const { name, content, encoding = 'utf-8', namespace: requestedNamespace, audience: requestedAudience } = req.body ?? {};
+    if (typeof name !== 'string' || !UPLOAD_NAME.test(name)) {
+      res.status(400).json({ error: '"name" must be a plain file name ending in .md, .txt or .pdf.' });
+      return;
+    }
+    if (typeof content !== 'string' || (encoding !== 'utf-8' && encoding !== 'base64')) {
+      res.status(400).json({ error: '"content" must be a string, with "encoding" either "utf-8" (the default) or "base64".' });
+      return;
+    }
+    const namespace = namespaceOf(requestedNamespace, res);
+    if (!namespace) return;
+    const audience = audienceOf(requestedAudience, res);
+    if (audience === null) return;
+
+    // Set before the file is ingested, so its chunks are never readable by more people than intended.
+    if (audience) await setSourceAudience(await openKnowledgeTable(namespace), `doc:${name}`, audience);
+    const folder = docsPath(namespace);
+    fs.mkdirSync(folder, { recursive: true });
+    fs.writeFileSync(path.join(folder, name), Buffer.from(content, encoding));
+    console.log(`🌐 Uploaded ${name} into "${namespace}" through the API.`);
+    res.status(202).json({ sourceId: `doc:${name}`, job: queueIngestJob('docs', namespace, { crawl: false, force: false, maxPages: 0 }) });
+  }));
+
+  app.delete('/kb/sources/:sourceId', requireAccess('admin'), route(async (req, res) => {
+    const namespace = namespaceOf(req.query.namespace, res);
+    if (!namespace) return;
+    const { sourceId } = req.params;
+    const table = await openKnowledgeTable(namespace);
+    const known = (await listStoredSources(table)).some(source => source.sourceId === sourceId) || !!manifest.get(namespace, sourceId);
+    if (!known) {
+      res.status(404).json({ error: `No source "${sourceId}" in namespace "${namespace}".` });
+      return;
+    }
+    await removeSource(table, sourceId);
+    // Without its file, the next ingestion of the folder does not bring the source back.
+    if (sourceId.startsWith('doc:')) {
+      fs.rmSync(path.join(docsPath(namespace), path.basename(sourceId.slice('doc:'.length))), { force: true });
+    }
+    console.log(`🌐 Removed ${sourceId} from "${namespace}" through the API.`);
+    res.json({ removed: sourceId, namespace });
+  }));
+
+  app.post('/kb/ingest', requireAccess('admin'), (req, res) => {
+    const { target, crawl = false, force = false, maxPages = 10, namespace: requestedNamespace, audience: requestedAudience } = req.body ?? {};
+    if (typeof target !== 'string' || (target !== 'docs' && !/^https?:\/\//.test(target))) {
+      res.status(400).json({ error: '"target" must be "docs" or an http(s) URL.' });
+      return;
+    }
+    if (typeof crawl !== 'boolean' || typeof force !== 'boolean' || !Number.isInteger(maxPages) || maxPages < 1 || maxPages > MAX_CRAWL_PAGES) {
+      res.status(400).json({ error: `"crawl" and "force" must be booleans and "maxPages" a whole number from 1 to ${MAX_CRAWL_PAGES}.` });
+      return;
+    }
+    const namespace = namespaceOf(requestedNamespace, res);
+    if (!namespace) return;
+    const audience = audienceOf(requestedAudience, res);
+    if (audience === null) return;
+    res.status(202).json({ job: queueIngestJob(target, namespace, { crawl: crawl && target !== 'docs', force, maxPages, audience }) });
+  });
+
+  app.get('/kb/jobs', requireAccess('admin'), (_req, res) => {
+    res.json({ jobs: [...jobs].reverse() });
+  });
+
+  app.get('/kb/jobs/:id', requireAccess('admin'), (req, res) => {
+    const job = jobs.find(candidate => candidate.id === Number(req.params.id));
+    if (job) res.json({ job });
+    else res.status(404).json({ error: `No job ${req.params.id}. Only the latest ${MAX_KEPT_JOBS} jobs are kept.` });
+  });
+
+  app.get('/tickets', requireAccess('admin'), (req, res) => {
+    const { guildId, status, kind } = req.query;
+    const limit = Math.min(Number(req.query.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const offset = Number(req.query.offset ?? 0);
+    if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(offset) || offset < 0) {
+      res.status(400).json({ error: '"limit" and "offset" must be whole numbers.' });
+      return;
+    }
+    if ((status !== undefined && status !== 'open' && status !== 'closed') || (kind !== undefined && kind !== 'ticket' && kind !== 'forum')) {
+      res.status(400).json({ error: '"status" must be "open" or "closed", and "kind" "ticket" or "forum".' });
+      return;
+    }
+    res.json({
+      tickets: ticketStore.list({
+        guildId: typeof guildId === 'string' ? guildId : undefined,
+        status: status as TicketStatus | undefined,
+        kind: kind as TicketKind | undefined,
+        limit,
+        offset,
+      }),
+    });
+  });
+
+  app.get('/tickets/:threadId', requireAccess('admin'), (req, res) => {
+    const ticket = ticketStore.get(req.params.threadId);
+    if (!ticket) {
+      res.status(404).json({ error: `No ticket ${req.params.threadId}.` });
+      return;
+    }
+    res.json({
+      ticket,
+      intents: ticketStore.getIntents(ticket.thread_id),
+      escalations: escalationStore.listByThread(ticket.thread_id),
+      usage: usageStore.forConversation(ticket.thread_id),
+    });
+  });
+
+  app.get('/tickets/:threadId/messages', requireAccess('admin'), (req, res) => {
+    const ticket = ticketStore.get(req.params.threadId);
+    if (ticket) res.json({ messages: ticketStore.getMessages(ticket.thread_id) });
+    else res.status(404).json({ error: `No ticket ${req.params.threadId}.` });
+  });
+
+  app.get('/tickets/:threadId/transcript', requireAccess('admin'), (req, res) => {
+    const ticket = ticketStore.get(req.params.threadId);
+    if (!ticket) {
+      res.status(404).json({ error: `No ticket ${req.params.threadId}.` });
+      return;
+    }
+    res.type('text/markdown').send(renderTranscriptMarkdown(ticket, ticketStore.getMessages(ticket.thread_id), ticketStore.getIntents(ticket.thread_id)));
+  });
+
+  app.get('/metrics', requireAccess('admin'), (_req, res) => {
+    res.type('text/plain; version=0.0.4').send(renderMetrics());
+  });
+
+  app.get('/usage', requireAccess('admin'), (req, res) => {
+    const days = Number(req.query.days ?? DEFAULT_USAGE_DAYS);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+      res.status(400).json({ error: `"days" must be a whole number from 1 to ${MAX_USAGE_DAYS}.` });
+      return;
+    }
+    res.json({
+      days,
+      daily: usageStore.daily(days),
+      topConversations: usageStore.topConversations(days, DEFAULT_PAGE_SIZE),
+      budgets: { dailyUsd: config.costs.dailyBudgetUsd || null, ticketUsd: config.costs.ticketBudgetUsd || null, spentTodayUsd: usageStore.spentToday() },
+    });
+  });
+
+  app.use((_req, res) => {
+    res.status(404).json({ error: 'Not found.' });
+  });
+
+  app.use((error: Error & { type?: string }, _req: Request, res: Response, _next: NextFunction) => {
+    if (error.type === 'entity.too.large') {
+      res.status(413).json({ error: `The request body is larger than ${Math.round(config.api.maxBodyBytes / 1024 / 1024)} MB.` });
+    } else if (error.type === 'entity.parse.failed') {
+      res.status(400).json({ error: 'The request body is not valid JSON.' });
+    } else {
+      console.error('- HTTP API request failed:', error);
+      res.status(500).json({ error: 'Something went wrong while handling the request.' });
+    }
+  });
+
+  return app;
+}
+
+/**
+ * Starts the HTTP API, unless no port or no API key is configured. Each process needs a port of its own, so the
+ * Discord bot serves on `config.api.port` and the Discourse worker on `config.api.discoursePort`.
+ * @param port The port to listen on, `config.api.port` unless given.
+ * @returns The listening server, or null when the API is off.
+ */
+export function startApiServer(options: ApiServerOptions = {}, port = config.api.port): Server | null {
+  if (!port) return null;
+  if (config.api.keys.length === 0 && config.api.askKeys.length === 0) {
+    console.warn(`⚠️ The HTTP API has port ${port} but API_KEYS and API_ASK_KEYS are not set; it stays off, as every route needs a key.`);
+    return null;
+  }
+  const server = createApiApp(options).listen(port, config.api.host, () => {
+    console.log(`🌐 HTTP API listening on http://${config.api.host}:${port}`);
+  });
+  // Without a listener, a port that is taken would crash the whole process rather than just leave the API off.
+  server.on('error', error => {
+    console.error(`❌ Could not serve the HTTP API on ${config.api.host}:${port}:`, error.message);
+  });
+  return server;
+}
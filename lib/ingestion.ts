@@ -0,0 +1,193 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import pdf from 'pdf-parse/lib/pdf-parse.js';
+import { Table } from '@lancedb/lancedb';
+import { config } from '../config.js';
+import { chunkBlocks, htmlToBlocks, markdownToBlocks, pdfPagesToBlocks, PdfLine, TextBlock } from './chunker.js';
+import { hashContent, isSourceUnchanged, manifest, openKnowledgeTable, removeSource, replaceSourceChunks, setSourceAudience } from './knowledge-base.js';
+import { DEFAULT_NAMESPACE } from './kb-namespaces.js';
+import { describeAudience, SourceAudience } from './kb-audiences.js';
+
+export const DOCS_PATH = path.join(process.cwd(), 'knowledge_base');
+
+export interface IngestOptions {
+    /** Re-ingest sources even when their content has not changed since the last run. */
+    force?: boolean;
+    /** The knowledge base namespace to ingest into; defaults to the default namespace. */
+    namespace?: string;
+    /**
+     * Who may read the sources of this run (see `SourceAudience`). Without it, sources keep the audience they were
+     * given before, and new ones are public. Unchanged sources are retagged without being embedded again.
+     */
+    audience?: SourceAudience;
+}
+
+/**
+ * Returns the folder whose files make up a namespace's `doc:` sources: `knowledge_base/` itself for the default
+ * namespace, and `knowledge_base/<namespace>/` for the others.
+ */
+export function docsPath(namespace = DEFAULT_NAMESPACE): string {
+    return namespace === DEFAULT_NAMESPACE ? DOCS_PATH : path.join(DOCS_PATH, namespace);
+}
+
+/** What happened to a single source during an ingestion run. */
+export type IngestOutcome = 'ingested' | 'unchanged' | 'empty';
+
+/**
+ * Extracts the lines of each PDF page separately, so chunks can record the page they came from.
+ * Mirrors pdf-parse's default renderer, which starts a new line whenever the y position changes, and also keeps each
+ * line's font size and a blank line wherever the gap to the next line is clearly larger than the line spacing.
+ */
+async function extractPdfPages(dataBuffer: Buffer): Promise<PdfLine[][]> {
+    const pages: PdfLine[][] = [];
+    await pdf(dataBuffer, {
+        pagerender: async (pageData: any) => {
+            const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+            const lines: PdfLine[] = [];
+            let lastY: number | undefined;
+            for (const item of textContent.items) {
+                const y = item.transform[5];
+                // The vertical scale of the text matrix is the font size, in points.
+                const fontSize = Math.round(Math.abs(item.transform[3]) * 10) / 10;
+                const line = lines[lines.length - 1];
+                if (line && lastY === y) {
+                    line.text += item.str;
+                    line.fontSize = Math.max(line.fontSize, fontSize);
+                } else {
+                    if (line && lastY !== undefined && Math.abs(lastY - y) > 1.5 * Math.max(line.fontSize, fontSize)) {
+                        lines.push({ text: '', fontSize: 0 });
+                    }
+                    lines.push({ text: item.str, fontSize });
+                }
+                lastY = y;
+            }
+            pages[pageData.pageIndex] = lines;
+            return lines.map(line => line.text).join('\n');
+        },
+    });
+    return Array.from(pages, page => page ?? []);
+}
+
+/**
+ * Ingests every Markdown, text and PDF file in the namespace's docs folder (see `docsPath`), skipping files that
+ * have not changed, and removes the sources of files that were deleted from the folder.
+ */
+export async function ingestDocs(options: IngestOptions = {}): Promise<void> {
+    console.log('🚀 Starting document ingestion process...');
+
+    const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+    const folder = docsPath(namespace);
+    // A namespace has no docs folder until someone puts files in it, e.g. when it is only fed by the crawler.
+    if (!fs.existsSync(folder)) {
+        console.log(`- No documents in ${folder}; nothing to ingest.`);
+        return;
+    }
+    const table = await openKnowledgeTable(namespace);
+
+    const files = fs.readdirSync(folder);
+    const seenSources = new Set<string>();
+    let ingested = 0;
+    let skipped = 0;
+    console.log(`- Found ${files.length} files in ${folder}.`);
+
+    for (const file of files) {
+        const filePath = path.join(folder, file);
+        const sourceId = `doc:${file}`;
+        let fileType = '';
+
+        if (file.endsWith('.md') || file.endsWith('.txt')) {
+            fileType = 'Text';
+        } else if (file.endsWith('.pdf')) {
+            fileType = 'PDF';
+        } else {
+            continue;
+        }
+        seenSources.add(sourceId);
+        if (options.audience && await setSourceAudience(table, sourceId, options.audience)) {
+            console.log(`\n🔒 Set the audience of ${file} to ${describeAudience(options.audience)}.`);
+        }
+
+        // Hash the raw bytes so unchanged PDFs are skipped without being parsed again.
+        const dataBuffer = fs.readFileSync(filePath);
+        const contentHash = hashContent(dataBuffer);
+        if (!options.force && isSourceUnchanged(table, sourceId, contentHash)) {
+            console.log(`\n⏭️ Skipping unchanged ${fileType} file: ${file}`);
+            skipped++;
+            continue;
+        }
+
+        const blocks: TextBlock[] = fileType === 'PDF'
+            ? pdfPagesToBlocks(await extractPdfPages(dataBuffer))
+            : markdownToBlocks(dataBuffer.toString('utf-8'));
+
+        console.log(`\n📄 Processing ${fileType} file: ${file}`);
+        const chunks = chunkBlocks(blocks);
+        console.log(`- Split file into ${chunks.length} chunks along headings, paragraphs${fileType === 'PDF' ? ' and pages' : ''}.`);
+
+        const stored = await replaceSourceChunks(table, {
+            sourceId,
+            title: `DOC: ${file}`,
+            url: `local://${file}`,
+            contentHash,
+            chunks,
+        });
+        console.log(`- ✅ Stored ${stored} chunks for ${file}, replacing any previous version.`);
+        ingested++;
+    }
+
+    const removedSources = manifest.list(namespace, 'doc:').filter(entry => !seenSources.has(entry.source_id));
+    for (const entry of removedSources) {
+        await removeSource(table, entry.source_id);
+        console.log(`\n🗑️ Removed ${entry.chunk_count} chunks of deleted file: ${entry.source_id.slice('doc:'.length)}`);
+    }
+
+    const finalCount = await table.countRows();
+    console.log(`\n🏁 Ingestion complete. ${ingested} ingested, ${skipped} unchanged, ${removedSources.length} removed. Vector DB now contains ${finalCount} total documents.`);
+}
+
+/**
+ * Chunks and stores the main content of an HTML page as the source `web:<url>`.
+ */
+export async function ingestHtml(table: Table, url: string, html: string, options: IngestOptions): Promise<IngestOutcome> {
+    const $ = cheerio.load(html);
+    const pageTitle = $('title').text() || url;
+
+    $('script, style, nav, footer, header, form, button').remove();
+
+    const blocks = htmlToBlocks($);
+    const text = blocks.map(block => block.text).join('\n\n');
+    if (!text) return 'empty';
+    console.log(`- Extracted ${text.length} characters.`);
+
+    const sourceId = `web:${url}`;
+    if (options.audience && await setSourceAudience(table, sourceId, options.audience)) {
+        console.log(`- 🔒 Set the audience of the page to ${describeAudience(options.audience)}.`);
+    }
+    const contentHash = hashContent(text);
+    if (!options.force && isSourceUnchanged(table, sourceId, contentHash)) return 'unchanged';
+
+    const chunks = chunkBlocks(blocks);
+    const stored = await replaceSourceChunks(table, {
+        sourceId,
+        title: `WEB: ${pageTitle}`,
+        url,
+        contentHash,
+        chunks,
+    });
+    console.log(`- ✅ Stored ${stored} chunks along the page's headings and paragraphs, replacing any previous version.`);
+    return 'ingested';
+}
+
+/**
+ * Fetches a single page over plain HTTP (no JavaScript rendering) and ingests it.
+ */
+export async function ingestPage(table: Table, url: string, options: IngestOptions = {}): Promise<IngestOutcome> {
+    console.log(`\n🌐 Scraping ${url}...`);
+    const response = await axios.get(url, { headers: { 'User-Agent': config.crawler.userAgent } });
+    const outcome = await ingestHtml(table, url, response.data, options);
+    if (outcome === 'empty') console.log('- ⚠️ No content found on the page after cleaning.');
+    if (outcome === 'unchanged') console.log('- ⏭️ Page content is unchanged since the last ingestion, skipping.');
+    return outcome;
+}
@@ -0,0 +1,98 @@
+import { getStateDb } from './state-db.js';
+
+/**
+ * Who may read a knowledge base source, as stored with each of its chunks:
+ * - `public`: everyone, including forum readers and the HTTP API;
+ * - `staff`: the support team only, e.g. internal runbooks;
+ * - `role:<id>,role:<id>…`: members of any of these Discord roles, and the support team.
+ */
+export type SourceAudience = string;
+
+export const PUBLIC_AUDIENCE: SourceAudience = 'public';
+export const STAFF_AUDIENCE: SourceAudience = 'staff';
+
+/**
+ * What a requester may read from the knowledge base.
+ */
+export interface KnowledgeAccess {
+  /** Support staff read every source, whatever its audience. */
+  staff: boolean;
+  /** The requester's Discord role IDs; they unlock the sources shared with those roles. */
+  roleIds: string[];
+}
+
+/** What anyone may read: public sources only. */
+export const PUBLIC_ACCESS: KnowledgeAccess = { staff: false, roleIds: [] };
+
+/** What the support team may read: every source. */
+export const STAFF_ACCESS: KnowledgeAccess = { staff: true, roleIds: [] };
+
+const ROLE_PATTERN = /^role:(\d{1,20})$/;
+
+/**
+ * Reads an audience as given on the command line or to the API, e.g. `staff` or `role:123,role:456`.
+ * Role lists are sorted and deduplicated, so equal audiences are equal strings.
+ * @throws If the audience is not `public`, `staff` or a list of `role:<id>`.
+ */
+export function parseAudience(value: string): SourceAudience {
+  const audience = value.trim().toLowerCase();
+  if (audience === PUBLIC_AUDIENCE || audience === STAFF_AUDIENCE) return audience;
+  const roles = audience.split(',').map(role => role.trim());
+  if (roles.length === 0 || !roles.every(role => ROLE_PATTERN.test(role))) {
+    throw new Error(`"${value}" is not a valid audience. Use "public", "staff" or a comma-separated list of "role:<role ID>".`);
+  }
+  return [...new Set(roles)].sort().join(',');
+}
+
+/**
+ * Describes an audience for people, e.g. "staff only" or "roles <@&123>, <@&456>".
+ * @param mentionRoles Whether to write roles as Discord mentions rather than bare IDs.
+ */
+export function describeAudience(audience: SourceAudience, mentionRoles = false): string {
+  if (audience === PUBLIC_AUDIENCE) return 'public';
+  if (audience === STAFF_AUDIENCE) return 'staff only';
+  const roles = audience.split(',').map(role => role.slice('role:'.length)).map(id => mentionRoles ? `<@&${id}>` : id);
+  return `${roles.length === 1 ? 'role' : 'roles'} ${roles.join(', ')}`;
+}
+
+/**
+ * Returns what a reader of an audience may read, e.g. to search the knowledge base as a member of some roles would.
+ */
+export function accessOfAudience(audience: SourceAudience): KnowledgeAccess {
+  if (audience === PUBLIC_AUDIENCE) return PUBLIC_ACCESS;
+  if (audience === STAFF_AUDIENCE) return STAFF_ACCESS;
+  return { staff: false, roleIds: audience.split(',').map(role => role.slice('role:'.length)) };
+}
+
+/**
+ * Builds the LanceDB filter that keeps only the chunks a requester may read, or undefined when they may read all.
+ * Chunks stored before sources had an audience carry `public`.
+ */
+export function audienceFilter(access: KnowledgeAccess): string | undefined {
+  if (access.staff) return undefined;
+  // Role IDs are snowflakes; anything else could not match a stored audience, and must not reach the filter.
+  const roleMatches = access.roleIds
+    .filter(id => /^\d{1,20}$/.test(id))
+    .map(id => `concat(',', audience, ',') LIKE '%,role:${id},%'`);
+  return [`audience = '${PUBLIC_AUDIENCE}'`, ...roleMatches].join(' OR ');
+}
+
+/**
+ * The audience of every source whose audience was set, per namespace. Entries outlive the sources' chunks, so a
+ * source that is removed and ingested again, e.g. a runbook moved out of the docs folder and back, stays restricted.
+ */
+export const audienceStore = {
+  /**
+   * Returns the audience of a source, public unless one was set.
+   */
+  get: (namespace: string, sourceId: string): SourceAudience =>
+    (getStateDb().prepare('SELECT audience FROM kb_audiences WHERE namespace = ? AND source_id = ?').get(namespace, sourceId) as { audience: string } | undefined)
+      ?.audience ?? PUBLIC_AUDIENCE,
+
+  set: (namespace: string, sourceId: string, audience: SourceAudience): void => {
+    getStateDb().prepare(`
+      INSERT INTO kb_audiences (namespace, source_id, audience) VALUES (?, ?, ?)
+      ON CONFLICT(namespace, source_id) DO UPDATE SET audience = excluded.audience, updated_at = CURRENT_TIMESTAMP
+    `).run(namespace, sourceId, audience);
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * Knowledge base namespaces keep the docs of different products apart: each namespace is a separate LanceDB table
+ * with its own manifest entries, and a Discord server only ever searches the namespace it is configured with.
+ */
+export const DEFAULT_NAMESPACE = 'default';
+
+// The default namespace keeps the table name from before namespaces existed, so existing knowledge bases carry over.
+const DEFAULT_TABLE = 'discourse_threads';
+const TABLE_PREFIX = 'kb_';
+
+const NAMESPACE_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+export const isValidNamespace = (namespace: string) => NAMESPACE_PATTERN.test(namespace);
+
+/**
+ * Throws unless the namespace is lowercase letters, digits, `-` and `_`, as it becomes part of a table name.
+ */
+export function assertValidNamespace(namespace: string): void {
+  if (!isValidNamespace(namespace)) {
+    throw new Error(`"${namespace}" is not a valid knowledge base namespace. Use up to 40 lowercase letters, digits, "-" and "_".`);
+  }
+}
+
+/**
+ * Returns the name of the LanceDB table that holds a namespace's chunks.
+ */
+export function knowledgeTableName(namespace: string): string {
+  assertValidNamespace(namespace);
+  return namespace === DEFAULT_NAMESPACE ? DEFAULT_TABLE : `${TABLE_PREFIX}${namespace}`;
+}
+
+/**
+ * Tells whether a LanceDB table holds a namespace's chunks, as opposed to e.g. indexed forum threads.
+ */
+export function isKnowledgeTable(tableName: string): boolean {
+  return tableName === DEFAULT_TABLE || tableName.startsWith(TABLE_PREFIX);
+}
+
+/**
+ * Returns the namespace whose chunks a table holds; the inverse of `knowledgeTableName`.
+ */
+export function namespaceOfTable(tableName: string): string {
+  return tableName.startsWith(TABLE_PREFIX) ? tableName.slice(TABLE_PREFIX.length) : DEFAULT_NAMESPACE;
+}
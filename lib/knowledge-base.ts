@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import { connect, Index, Table } from '@lancedb/lancedb';
+import { config } from '../config.js';
+import { llm } from './llm.js';
+import { DocumentChunk } from './chunker.js';
+import { getStateDb } from './state-db.js';
+import { parseChunkId } from './vector-store.js';
+import { DEFAULT_NAMESPACE, isKnowledgeTable, knowledgeTableName, namespaceOfTable } from './kb-namespaces.js';
+import { audienceStore, PUBLIC_AUDIENCE, SourceAudience } from './kb-audiences.js';
+
+/**
+ * A row in the source manifest, describing what was last ingested for one source of a namespace.
+ * Source IDs are the chunk ID prefix, e.g. `doc:atlas.pdf` or `web:https://example.com/page`.
+ */
+export interface SourceManifestEntry {
+  namespace: string;
+  source_id: string;
+  content_hash: string;
+  chunk_count: number;
+  ingested_at: string;
+}
+
+/**
+ * Read/write access to the per-source ingestion manifest stored in the state DB. Every namespace has its own entries.
+ */
+export const manifest = {
+  get: (namespace: string, sourceId: string): SourceManifestEntry | undefined =>
+    getStateDb().prepare('SELECT * FROM kb_manifest WHERE namespace = ? AND source_id = ?').get(namespace, sourceId) as SourceManifestEntry | undefined,
+
+  /**
+   * Lists all manifest entries of a namespace whose source ID starts with the given prefix.
+   */
+  list: (namespace: string, prefix = ''): SourceManifestEntry[] =>
+    (getStateDb().prepare('SELECT * FROM kb_manifest WHERE namespace = ? ORDER BY source_id').all(namespace) as SourceManifestEntry[])
+      .filter(entry => entry.source_id.startsWith(prefix)),
+
+  /**
+   * Lists every namespace that has at least one source, with its source count.
+   */
+  namespaces: (): { namespace: string; sources: number }[] =>
+    getStateDb().prepare('SELECT namespace, COUNT(*) AS sources FROM kb_manifest GROUP BY namespace ORDER BY namespace').all() as { namespace: string; sources: number }[],
+
+  upsert: (namespace: string, sourceId: string, contentHash: string, chunkCount: number): void => {
+    getStateDb().prepare(`
+      INSERT INTO kb_manifest (namespace, source_id, content_hash, chunk_count, ingested_at) VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(namespace, source_id) DO UPDATE SET content_hash = excluded.content_hash, chunk_count = excluded.chunk_count, ingested_at = excluded.ingested_at
+    `).run(namespace, sourceId, contentHash, chunkCount);
+  },
+
+  remove: (namespace: string, sourceId: string): void => {
+    getStateDb().prepare('DELETE FROM kb_manifest WHERE namespace = ? AND source_id = ?').run(namespace, sourceId);
+  },
+};
+
+// Bump whenever the way sources are chunked changes, so the next ingestion run re-chunks every source.
+const INGESTION_VERSION = 3;
+
+/**
+ * Computes the content hash used to detect whether a source changed since it was last ingested.
+ * The embedding model and ingestion version are part of the hash, so switching providers or
+ * changing the chunker re-ingests every source.
+ */
+export function hashContent(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(`v${INGESTION_VERSION}/${llm.name}/${llm.embeddingModel}\0`).update(content).digest('hex');
+}
+
+/**
+ * Builds a LanceDB filter matching every chunk of a source, without the wildcard pitfalls of LIKE.
+ * Chunk IDs have the form `<sourceId>-chunk:<n>@<hash>`, and ';' is the character right after ':'.
+ */
+export function sourceFilter(sourceId: string): string {
+  const prefix = `${sourceId}-chunk:`.replace(/'/g, "''");
+  return `id >= '${prefix}' AND id < '${prefix.slice(0, -1)};'`;
+}
+
+/**
+ * Creates the full-text (BM25) index on `content` used by hybrid search, if the table does not have one yet.
+ * Rows added after the index was built are still searched, so it only needs to be created once.
+ */
+async function ensureFullTextIndex(table: Table): Promise<void> {
+  const indices = await table.listIndices();
+  if (!indices.some(index => index.columns.includes('content'))) {
+    await table.createIndex('content', { config: Index.fts() });
+    console.log('🔎 Created full-text index on "content" for hybrid search.');
+  }
+}
+
+/**
+ * Adds the citation metadata and audience columns to tables created before chunks carried them.
+ * Existing rows get empty citation values until their source is re-ingested, and are public.
+ */
+async function ensureChunkMetadataColumns(table: Table): Promise<void> {
+  const fields = (await table.schema()).fields.map(field => field.name);
+  const missing = [
+    { name: 'section', valueSql: "''" },
+    { name: 'page', valueSql: 'CAST(0 AS DOUBLE)' },
+    { name: 'anchor', valueSql: "''" },
+    { name: 'audience', valueSql: `'${PUBLIC_AUDIENCE}'` },
+  ].filter(column => !fields.includes(column.name));
+  if (missing.length > 0) {
+    await table.addColumns(missing);
+    console.log(`🧱 Added ${missing.map(column => column.name).join(', ')} column(s) to "${table.name}".`);
+  }
+}
+
+/**
+ * Checks that a table stores vectors as wide as the ones the embedding model makes, which it can neither add to nor
+ * search otherwise.
+ * @throws If the widths differ, e.g. after switching to a model with a different number of dimensions.
+ */
+async function ensureVectorWidth(table: Table): Promise<void> {
+  const vector = (await table.schema()).fields.find(field => field.name === 'vector');
+  // The vector column is a fixed-size list, whose size is the number of dimensions.
+  const width = (vector?.type as { listSize?: number } | undefined)?.listSize;
+  if (width !== undefined && width !== llm.embeddingDimensions) {
+    throw new Error(
+      `Table "${table.name}" holds ${width}-dimensional vectors, but ${llm.name}/${llm.embeddingModel} makes ${llm.embeddingDimensions}-dimensional ones. ` +
+      `Delete the ${config.paths.lanceDb} folder and ingest the knowledge base again, or switch back to the embedding model it was built with.`,
+    );
+  }
+}
+
+/**
+ * Checks every existing knowledge base table against the embedding model, so the bots refuse to start on a knowledge
+ * base they could not search rather than fail on every question.
+ * @throws If a table was built with an embedding model of another width.
+ */
+export async function checkKnowledgeTables(): Promise<void> {
+  const db = await connect(config.paths.lanceDb);
+  for (const tableName of (await db.tableNames()).filter(isKnowledgeTable)) {
+    await ensureVectorWidth(await db.openTable(tableName));
+  }
+}
+
+/**
+ * Opens the knowledge base table of a namespace, creating an empty one if it does not exist yet.
+ * @throws If the table was built with an embedding model of another width.
+ */
+export async function openKnowledgeTable(namespace = DEFAULT_NAMESPACE): Promise<Table> {
+  const tableName = knowledgeTableName(namespace);
+  const db = await connect(config.paths.lanceDb);
+  let table: Table;
+  try {
+    table = await db.openTable(tableName);
+    console.log(`📚 Opened existing table "${tableName}".`);
+  } catch (e) {
+    console.log(`✨ Table "${tableName}" not found, creating a new one...`);
+    const sampleData = [{ id: '', title: '', url: '', content: '', section: '', page: 0, anchor: '', audience: PUBLIC_AUDIENCE, vector: Array(llm.embeddingDimensions).fill(0) }];
+    table = await db.createTable(tableName, sampleData);
+    await table.delete("id = ''");
+    console.log('✅ New table created successfully.');
+  }
+  await ensureVectorWidth(table);
+  await ensureChunkMetadataColumns(table);
+  await ensureFullTextIndex(table);
+  return table;
+}
+
+/**
+ * Checks the manifest to see whether a source was already ingested into the table with exactly this content.
+ */
+export function isSourceUnchanged(table: Table, sourceId: string, contentHash: string): boolean {
+  return manifest.get(namespaceOfTable(table.name), sourceId)?.content_hash === contentHash;
+}
+
+/**
+ * Embeds the chunks of a source and swaps them in for whatever was stored for that source before.
+ * All embeddings are computed first, and the swap is a single merge-insert commit, so a failure part-way
+ * through leaves the previous version of the source untouched. Every chunk carries the source's audience from
+ * `audienceStore`.
+ * @param table The knowledge base table of the namespace the source belongs to.
+ * @param source The source's ID prefix, display title, URL, content hash and chunks.
+ * @returns The number of chunks stored for the source.
+ */
+export async function replaceSourceChunks(
+  table: Table,
+  source: { sourceId: string; title: string; url: string; contentHash: string; chunks: DocumentChunk[] },
+): Promise<number> {
+  const version = source.contentHash.slice(0, 12);
+  const audience = audienceStore.get(namespaceOfTable(table.name), source.sourceId);
+  const rows = [];
+  for (let i = 0; i < source.chunks.length; i++) {
+    const chunk = source.chunks[i];
+    const embedding = await llm.embed(chunk.content);
+    rows.push({
+      id: `${source.sourceId}-chunk:${i}@${version}`,
+      title: source.title,
+      url: source.url,
+      content: chunk.content,
+      section: chunk.headingPath.join(' > '),
+      page: chunk.page ?? 0,
+      anchor: chunk.anchor ?? '',
+      audience,
+      vector: embedding,
+    });
+  }
+
+  if (rows.length === 0) {
+    await removeSource(table, source.sourceId);
+    return 0;
+  }
+
+  // Chunk IDs carry the content hash, so new rows never match old ones: every new row is inserted and
+  // every old row of this source (including legacy, un-hashed duplicates) is deleted in the same commit.
+  await table
+    .mergeInsert('id')
+    .whenMatchedUpdateAll()
+    .whenNotMatchedInsertAll()
+    .whenNotMatchedBySourceDelete({ where: sourceFilter(source.sourceId) })
+    .execute(rows);
+
+  manifest.upsert(namespaceOfTable(table.name), source.sourceId, source.contentHash, rows.length);
+  return rows.length;
+}
+
+/**
+ * Sets who may read a source, and retags the chunks already stored for it. Sources that are not stored yet get the
+ * audience when they are ingested.
+ * @returns Whether the audience changed.
+ */
+export async function setSourceAudience(table: Table, sourceId: string, audience: SourceAudience): Promise<boolean> {
+  const namespace = namespaceOfTable(table.name);
+  const previous = audienceStore.get(namespace, sourceId);
+  audienceStore.set(namespace, sourceId, audience);
+  const { rowsUpdated } = await table.update({ where: `(${sourceFilter(sourceId)}) AND audience != '${audience}'`, values: { audience } });
+  return previous !== audience || rowsUpdated > 0;
+}
+
+/**
+ * Deletes every chunk of a source from the knowledge base and drops it from the manifest. Its audience is kept.
+ */
+export async function removeSource(table: Table, sourceId: string): Promise<void> {
+  await table.delete(sourceFilter(sourceId));
+  manifest.remove(namespaceOfTable(table.name), sourceId);
+}
+
+/**
+ * A source as it is actually stored in the knowledge base table, which may differ from the manifest
+ * for sources ingested before the manifest existed.
+ */
+export interface StoredSource {
+  sourceId: string;
+  title: string;
+  url: string;
+  audience: SourceAudience;
+  chunkCount: number;
+}
+
+/**
+ * Lists every source in the knowledge base table with the number of chunks stored for it.
+ */
+export async function listStoredSources(table: Table): Promise<StoredSource[]> {
+  const rows = await table.query().select(['id', 'title', 'url', 'audience']).toArray() as { id: string; title: string; url: string; audience: string }[];
+  const sources = new Map<string, StoredSource>();
+  for (const row of rows) {
+    const { sourceId } = parseChunkId(row.id);
+    const source = sources.get(sourceId) ?? { sourceId, title: row.title, url: row.url, audience: row.audience, chunkCount: 0 };
+    source.chunkCount++;
+    sources.set(sourceId, source);
+  }
+  return [...sources.values()].sort((a, b) => a.sourceId.localeCompare(b.sourceId));
+}
+
+/**
+ * Returns the stored chunks of one source, in chunk order.
+ */
+export async function getSourceChunks(table: Table, sourceId: string): Promise<{ id: string; content: string; section: string; page: number; anchor: string }[]> {
+  const rows = await table.query().where(sourceFilter(sourceId)).select(['id', 'content', 'section', 'page', 'anchor']).toArray();
+  return rows
+    .map(row => ({ id: row.id, content: row.content, section: row.section ?? '', page: row.page ?? 0, anchor: row.anchor ?? '' }))
+    .sort((a, b) => parseChunkId(a.id).chunkIndex - parseChunkId(b.id).chunkIndex);
+}
@@ -0,0 +1,58 @@
+/**
+ * A language recognised by `detectLanguage`.
+ */
+export interface DetectedLanguage {
+  /** ISO 639-1 code, e.g. `de`. */
+  code: string;
+  /** English name, as written into prompts, e.g. `German`. */
+  name: string;
+}
+
+/** Languages recognised by the script they are written in alone. */
+const SCRIPTS: { pattern: RegExp; code: string; name: string }[] = [
+  { pattern: /[぀-ヿ]/g, code: 'ja', name: 'Japanese' },
+  { pattern: /[가-힯]/g, code: 'ko', name: 'Korean' },
+  { pattern: /[一-鿿]/g, code: 'zh', name: 'Chinese' },
+  { pattern: /[Ѐ-ӿ]/g, code: 'ru', name: 'Russian' },
+  { pattern: /[Ͱ-Ͽ]/g, code: 'el', name: 'Greek' },
+  { pattern: /[֐-׿]/g, code: 'he', name: 'Hebrew' },
+  { pattern: /[؀-ۿ]/g, code: 'ar', name: 'Arabic' },
+  { pattern: /[ऀ-ॿ]/g, code: 'hi', name: 'Hindi' },
+  { pattern: /[฀-๿]/g, code: 'th', name: 'Thai' },
+];
+
+/** Frequent short words of languages written in the Latin script. */
+const STOPWORDS: { code: string; name: string; words: Set<string> }[] = ([
+  { code: 'en', name: 'English', words: 'the and is are to of in it how what my i you do does not with for this can when why have'.split(' ') },
+  { code: 'es', name: 'Spanish', words: 'el la los las de que y en es por para con no una un cómo qué mi pero está hola porque tengo puedo'.split(' ') },
+  { code: 'fr', name: 'French', words: 'le la les de des et est je pas que une un pour dans mon ne comment avec ce sur bonjour mais fonctionne'.split(' ') },
+  { code: 'de', name: 'German', words: 'der die das und ist ich nicht ein eine mit zu wie auf es mein was wenn kann für bei hallo funktioniert'.split(' ') },
+  { code: 'pt', name: 'Portuguese', words: 'o a os as de que e é não um uma para com meu como em do da está olá você funciona'.split(' ') },
+  { code: 'it', name: 'Italian', words: 'il lo la di che e è non un una per con mi come in del della sono ciao perché funziona'.split(' ') },
+  { code: 'nl', name: 'Dutch', words: 'de het een en is ik niet van met op hoe wat mijn voor dat kan hallo werkt'.split(' ') },
+] as { code: string; name: string; words: string[] }[]).map(language => ({ ...language, words: new Set(language.words) }));
+
+/**
+ * Guesses the language of a message, cheaply and without calling the model: first by script, then by counting
+ * frequent words of the common Latin-script languages.
+ * @returns The language, or null when the message is too short or too mixed to tell.
+ */
+export function detectLanguage(text: string): DetectedLanguage | null {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return null;
+  for (const { pattern, code, name } of SCRIPTS) {
+    // Kana is decisive for Japanese even next to Chinese characters; elsewhere the script has to dominate the message.
+    const count = text.match(pattern)?.length ?? 0;
+    if (count === 0 || (code !== 'ja' && count / letters < 0.3)) continue;
+    // Ukrainian shares the Cyrillic script with Russian, but has letters Russian lacks.
+    if (code === 'ru' && /[іїєґ]/i.test(text)) return { code: 'uk', name: 'Ukrainian' };
+    return { code, name };
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = STOPWORDS
+    .map(({ code, name, words: stopwords }) => ({ code, name, score: words.filter(word => stopwords.has(word)).length }))
+    .sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  return best.score >= 2 && best.score > runnerUp.score ? { code: best.code, name: best.name } : null;
+}
@@ -0,0 +1,282 @@
+import { OpenAI } from 'openai';
+import { config } from '../config.js';
+import { instrumentProvider } from './usage.js';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  maxTokens?: number;
+  temperature?: number;
+  /** Streams the completion: called with each piece of text as the model produces it. The result is the same either way. */
+  onToken?: (delta: string) => void;
+  /** What the call is for, e.g. 'reply' or 'intent'; recorded with its token usage and cost. */
+  purpose?: string;
+}
+
+export interface ChatResult {
+  content: string | null;
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+export interface ModerationResult {
+  flagged: boolean;
+  /** The categories the input was flagged for, e.g. `harassment`. */
+  categories: string[];
+}
+
+/**
+ * A source of chat completions and text embeddings.
+ * Everything in the bot and the ingestion scripts talks to models through this interface.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+  readonly embeddingDimensions: number;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
+  embed(input: string): Promise<number[]>;
+  /** Checks user input against the provider's content policy. Providers without a moderation endpoint leave this out. */
+  moderate?(input: string): Promise<ModerationResult>;
+}
+
+/**
+ * Creates a provider backed by the OpenAI API, or by any server that implements the same
+ * `/chat/completions` and `/embeddings` endpoints when `baseURL` is set.
+ */
+export function createOpenAiProvider(options: {
+  name: string;
+  apiKey: string;
+  baseURL?: string;
+  chatModel: string;
+  embeddingModel: string;
+  embeddingDimensions: number;
+  /** Whether the server offers OpenAI's `/moderations` endpoint; most local servers do not. */
+  moderation?: boolean;
+}): LlmProvider {
+  // Local servers usually ignore the key, but the OpenAI SDK refuses to start without one.
+  const client = new OpenAI({ apiKey: options.apiKey || 'not-needed', baseURL: options.baseURL });
+
+  return {
+    name: options.name,
+    chatModel: options.chatModel,
+    embeddingModel: options.embeddingModel,
+    embeddingDimensions: options.embeddingDimensions,
+
+    chat: async (messages, chatOptions = {}) => {
+      if (chatOptions.onToken) {
+        const stream = await client.chat.completions.create({
+          model: options.chatModel,
+          messages,
+          max_tokens: chatOptions.maxTokens,
+          temperature: chatOptions.temperature,
+          stream: true,
+          // Servers that do not report usage for streams simply leave it out.
+          stream_options: { include_usage: true },
+        });
+        let content = '';
+        let usage: ChatResult['usage'];
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            chatOptions.onToken(delta);
+          }
+          if (chunk.usage) usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+        }
+        return { content: content || null, usage };
+      }
+
+      const completion = await client.chat.completions.create({
+        model: options.chatModel,
+        messages,
+        max_tokens: chatOptions.maxTokens,
+        temperature: chatOptions.temperature,
+      });
+      return {
+        content: completion.choices[0]?.message.content ?? null,
+        usage: completion.usage && {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+        },
+      };
+    },
+
+    embed: async (input) => {
+      const embRes = await client.embeddings.create({ model: options.embeddingModel, input });
+      return embRes.data[0].embedding;
+    },
+
+    moderate: options.moderation
+      ? async (input) => {
+        const modRes = await client.moderations.create({ model: 'omni-moderation-latest', input });
+        const result = modRes.results[0];
+        const categories = Object.entries(result.categories).filter(([, flagged]) => flagged).map(([category]) => category);
+        return { flagged: result.flagged, categories };
+      }
+      : undefined,
+  };
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function classifyIntentOffline(text: string): string {
+  const lower = text.toLowerCase();
+  if (/\b(human|agent|person|ticket|escalate|frustrat|angry|unacceptable)\b/.test(lower)) return 'escalation_request';
+  if (/\?|\b(how|what|why|where|when|which|can i|error|fail|does not|doesn't|help)\b/.test(lower)) return 'question';
+  if (/\b(thanks|thank you|got it|ok|okay|yes|sure|please do)\b/.test(lower)) return 'follow_up';
+  return 'other';
+}
+
+/**
+ * Judges an answer SUPPORTED when most of its words appear in the context, which is always the case for the fake
+ * provider's own answers, as they quote the first source.
+ */
+function checkGroundingOffline(answer: string, context: string): string {
+  const words = answer.toLowerCase().replace(/\[\d+\]/g, '').match(/[a-z0-9]{3,}/g) ?? [];
+  if (words.length === 0) return 'SUPPORTED';
+  const contextWords = new Set(context.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+  const covered = words.filter(word => contextWords.has(word)).length / words.length;
+  return covered >= 0.8 ? 'SUPPORTED' : covered >= 0.5 ? 'PARTIAL' : 'UNSUPPORTED';
+}
+
+/**
+ * Creates a deterministic provider that never touches the network.
+ * Embeddings are hashed bags of words, so texts sharing words are close to each other.
+ * Chat answers by the `purpose` of each call: intents come from a keyword heuristic, and replies quote the first
+ * retrieved source, citing it as [1]. Conversation summaries are the messages strung together, search queries are the
+ * latest message after the user's previous one, forum tags are those named in the post, reply drafts are the team's
+ * answer without its citations, and reranking keeps the passages in order. Streamed answers arrive a word at a time.
+ */
+export function createFakeProvider(embeddingDimensions: number): LlmProvider {
+  const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+  return {
+    name: 'fake',
+    chatModel: 'fake-chat',
+    embeddingModel: 'fake-embedding',
+    embeddingDimensions,
+
+    chat: async (messages, chatOptions = {}) => {
+      const last = messages[messages.length - 1]?.content ?? '';
+      const system = messages.find(m => m.role === 'system')?.content ?? '';
+      let content: string;
+
+      switch (chatOptions.purpose) {
+        case 'intent': {
+          const quoted = /\n\w+: "([\s\S]*)"\s*\n\s*Respond with ONLY/.exec(last);
+          content = classifyIntentOffline(quoted ? quoted[1] : last);
+          break;
+        }
+        case 'grounding': {
+          const answer = /--- ANSWER ---\n([\s\S]*?)\n--- END OF ANSWER ---/.exec(last)?.[1] ?? '';
+          const context = /--- KNOWLEDGE BASE ---\n([\s\S]*?)\n--- END OF KNOWLEDGE BASE ---/.exec(last)?.[1] ?? '';
+          content = checkGroundingOffline(answer, context);
+          break;
+        }
+        case 'rewrite_query': {
+          // Puts the user's previous message in front of the latest, which is what most follow-ups lean on.
+          const latest = /--- LATEST MESSAGE ---\n([\s\S]*?)\n--- END OF LATEST MESSAGE ---/.exec(last)?.[1] ?? '';
+          const recent = /--- RECENT MESSAGES ---\n([\s\S]*?)\n--- END OF RECENT MESSAGES ---/.exec(last)?.[1] ?? '';
+          const previous = recent.split('\n').filter(line => line.startsWith('User: ')).pop()?.slice('User: '.length) ?? '';
+          content = `${previous} ${latest}`.replace(/\s+/g, ' ').trim();
+          break;
+        }
+        case 'summarize_conversation': {
+          const summary = /--- SUMMARY SO FAR ---\n([\s\S]*?)\n--- END OF SUMMARY ---/.exec(last)?.[1] ?? '';
+          const messages = /--- NEW MESSAGES ---\n([\s\S]*?)\n--- END OF NEW MESSAGES ---/.exec(last)?.[1] ?? '';
+          content = `${summary === 'None yet.' ? '' : summary} ${messages}`.replace(/\s+/g, ' ').trim().slice(-600);
+          break;
+        }
+        case 'forum_tags': {
+          // Every offered tag whose name appears in the post.
+          const tags = /Available tags:\n([\s\S]*?)\n\n/.exec(last)?.[1].split('\n').map(line => line.replace(/^- /, '')) ?? [];
+          const post = (/--- POST ---\n([\s\S]*?)\n--- END OF POST ---/.exec(last)?.[1] ?? '').toLowerCase();
+          content = tags.filter(tag => post.includes(tag.toLowerCase())).join(', ') || 'none';
+          break;
+        }
+        case 'draft_reply': {
+          // The answer for the team, without its citations.
+          const answer = /--- ANSWER FOR THE TEAM ---\n([\s\S]*?)\n--- END OF ANSWER ---/.exec(last)?.[1] ?? '';
+          content = answer.replace(/\s*\[\d+\]/g, '').trim();
+          break;
+        }
+        case 'rerank': {
+          // Keeps the order the passages came in.
+          const count = last.match(/^\[\d+\] /gm)?.length ?? 0;
+          content = Array.from({ length: count }, (_, i) => i + 1).join(',');
+          break;
+        }
+        default: {
+          // Answers, and the calls that have no offline counterpart, e.g. ticket summaries.
+          const firstSource = /\[Source 1: [^\]]*\]\n([^\n]+)/.exec(system);
+          content = firstSource
+            ? `${firstSource[1].slice(0, 200).trim()} [1]`
+            : "I'm sorry, I don't have enough information to answer that.";
+        }
+      }
+
+      // Streams word by word, so streaming code paths can be exercised offline too.
+      if (chatOptions.onToken) {
+        for (const piece of content.match(/\S+\s*/g) ?? []) chatOptions.onToken(piece);
+      }
+
+      const prompt = messages.map(m => m.content).join('\n');
+      return { content, usage: { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(content) } };
+    },
+
+    embed: async (input) => {
+      const vector = new Array<number>(embeddingDimensions).fill(0);
+      for (const token of input.toLowerCase().match(/[a-z0-9_.-]+/g) ?? []) {
+        const hash = fnv1a(token);
+        vector[hash % embeddingDimensions] += hash & 0x80000000 ? -1 : 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vector.map(v => v / norm);
+    },
+  };
+}
+
+/**
+ * Creates the provider selected by `config.llm.provider`.
+ */
+export function createLlmProvider(): LlmProvider {
+  switch (config.llm.provider) {
+    case 'fake':
+      return createFakeProvider(config.llm.embeddingDimensions);
+    case 'openai-compatible':
+      return createOpenAiProvider({
+        name: 'openai-compatible',
+        apiKey: config.llm.apiKey,
+        baseURL: config.llm.baseUrl,
+        chatModel: config.llm.chatModel,
+        embeddingModel: config.llm.embeddingModel,
+        embeddingDimensions: config.llm.embeddingDimensions,
+      });
+    case 'openai':
+      return createOpenAiProvider({
+        name: 'openai',
+        apiKey: config.openai.apiKey,
+        chatModel: config.openai.model,
+        embeddingModel: config.openai.embeddingModel,
+        embeddingDimensions: config.openai.embeddingDimensions,
+        moderation: true,
+      });
+    default:
+      throw new Error(`Unknown LLM provider "${config.llm.provider}". Expected 'openai', 'openai-compatible' or 'fake'.`);
+  }
+}
+
+/**
+ * The provider shared by the bot and the ingestion scripts, with every call timed and its usage recorded.
+ */
+export const llm: LlmProvider = instrumentProvider(createLlmProvider());
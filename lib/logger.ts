@@ -0,0 +1,87 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { format } from 'util';
+import { config } from '../config.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * What every log line written while handling one conversation carries, so its lines can be followed across modules.
+ */
+export interface LogContext {
+  /** The Discord thread ID, `discourse:<topic ID>` for forum topics, or `api:<conversation or request ID>`. */
+  correlationId: string;
+  guildId?: string;
+}
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+// The console as it was before `installConsoleCapture`, used for the pretty format.
+const originalConsole = { log: console.log, info: console.info, warn: console.warn, error: console.error, debug: console.debug };
+
+/**
+ * Runs a function with a log context; everything it logs, including from awaited calls, carries the context's fields.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run(context, fn);
+}
+
+/**
+ * Returns the correlation ID of the conversation being handled, or null outside of one (e.g. in scheduled jobs).
+ */
+export function currentCorrelationId(): string | null {
+  return contextStorage.getStore()?.correlationId ?? null;
+}
+
+const serializeError = (error: Error) => ({ name: error.name, message: error.message, stack: error.stack });
+
+function write(level: LogLevel, message: string, fields: LogFields = {}): void {
+  if (LEVELS[level] < LEVELS[config.logging.level]) return;
+  if (config.logging.format === 'pretty') {
+    const details = Object.entries(fields).map(([key, value]) => `${key}=${value instanceof Error ? value.message : JSON.stringify(value)}`);
+    const print = level === 'error' ? originalConsole.error : level === 'warn' ? originalConsole.warn : originalConsole.log;
+    print(details.length ? `${message} (${details.join(', ')})` : message);
+    return;
+  }
+  const line = {
+    time: new Date().toISOString(),
+    level,
+    instance: config.bot.instanceId,
+    ...contextStorage.getStore(),
+    msg: message,
+    ...Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, value instanceof Error ? serializeError(value) : value])),
+  };
+  (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(`${JSON.stringify(line)}\n`);
+}
+
+/**
+ * The structured logger. Each line names the bot instance (`config.bot.instanceId`) and the conversation being
+ * handled, if any; `fields` are added as they are, so they can be filtered on.
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
+
+/**
+ * Routes `console` output through the logger when `config.logging.format` is 'json', so the bot's existing console
+ * lines become structured too. Errors passed to the console are kept whole, with their stack, in an `error` field.
+ */
+export function installConsoleCapture(): void {
+  if (config.logging.format !== 'json') return;
+  const capture = (level: LogLevel) => (...args: unknown[]) => {
+    const error = args.find((arg): arg is Error => arg instanceof Error);
+    const message = format(...args.filter(arg => arg !== error)).trim().replace(/:$/, '');
+    write(level, message || error?.message || '', error ? { error } : {});
+  };
+  console.log = capture('info');
+  console.info = capture('info');
+  console.warn = capture('warn');
+  console.error = capture('error');
+  console.debug = capture('debug');
+}
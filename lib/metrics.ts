@@ -0,0 +1,112 @@
+import { config } from '../config.js';
+
+/**
+ * A metric as it appears on the `/metrics` page.
+ */
+interface RegisteredMetric {
+  render(): string[];
+}
+
+const registry: RegisteredMetric[] = [];
+
+// Seconds; from a fast local embedding to a slow streamed answer.
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function renderLabels(labels: Record<string, string>, extra: Record<string, string> = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  return entries.length ? `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}` : '';
+}
+
+/**
+ * Keeps one value per combination of label values, in the order the label names were declared.
+ */
+function labelledValues<L extends string, V>(labelNames: readonly L[], initial: () => V) {
+  const values = new Map<string, { labels: Record<L, string>; value: V }>();
+  return {
+    entries: () => [...values.values()],
+    get: (labels: Record<L, string>): { labels: Record<L, string>; value: V } => {
+      const key = labelNames.map(name => labels[name]).join('\u0000');
+      let entry = values.get(key);
+      if (!entry) {
+        entry = { labels: Object.fromEntries(labelNames.map(name => [name, labels[name]])) as Record<L, string>, value: initial() };
+        values.set(key, entry);
+      }
+      return entry;
+    },
+  };
+}
+
+function counter<L extends string>(name: string, help: string, labelNames: readonly L[]) {
+  const values = labelledValues(labelNames, () => 0);
+  registry.push({
+    render: () => [`# HELP ${name} ${help}`, `# TYPE ${name} counter`, ...values.entries().map(entry => `${name}${renderLabels(entry.labels)} ${entry.value}`)],
+  });
+  return {
+    inc: (labels: Record<L, string>, amount = 1) => { values.get(labels).value += amount; },
+  };
+}
+
+function histogram<L extends string>(name: string, help: string, labelNames: readonly L[], buckets = LATENCY_BUCKETS) {
+  const values = labelledValues(labelNames, () => ({ buckets: buckets.map(() => 0), sum: 0, count: 0 }));
+  registry.push({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...values.entries().flatMap(({ labels, value }) => [
+        ...buckets.map((bound, index) => `${name}_bucket${renderLabels(labels, { le: String(bound) })} ${value.buckets[index]}`),
+        `${name}_bucket${renderLabels(labels, { le: '+Inf' })} ${value.count}`,
+        `${name}_sum${renderLabels(labels)} ${value.sum}`,
+        `${name}_count${renderLabels(labels)} ${value.count}`,
+      ]),
+    ],
+  });
+  const observe = (labels: Record<L, string>, seconds: number) => {
+    const entry = values.get(labels).value;
+    buckets.forEach((bound, index) => { if (seconds <= bound) entry.buckets[index]++; });
+    entry.sum += seconds;
+    entry.count++;
+  };
+  return {
+    observe,
+    /**
+     * Starts timing; the returned function records the time elapsed since.
+     */
+    startTimer: (labels: Record<L, string>) => {
+      const started = performance.now();
+      return () => observe(labels, (performance.now() - started) / 1000);
+    },
+  };
+}
+
+/**
+ * The bot's Prometheus metrics. They live in memory and start from zero when the process starts, as Prometheus expects.
+ */
+export const metrics = {
+  intents: counter('bot_intents_total', 'User messages by the intent they were classified as.', ['intent']),
+  retrievalSeconds: histogram('bot_retrieval_duration_seconds', 'Time to search the knowledge base, including the query embedding and any reranking.', ['namespace']),
+  llmRequestSeconds: histogram('bot_llm_request_duration_seconds', 'Time the model provider took to answer, by call kind.', ['provider', 'model', 'kind']),
+  llmErrors: counter('bot_llm_errors_total', 'Calls to the model provider that failed.', ['provider', 'model', 'kind']),
+  llmTokens: counter('bot_llm_tokens_total', 'Tokens sent to (prompt) and produced by (completion) the models.', ['model', 'type']),
+  llmCostUsd: counter('bot_llm_cost_usd_total', 'Estimated spend on the models, in US dollars.', ['model']),
+  replies: counter('bot_replies_total', 'AI answers, by where they were asked and whether they were sent or escalated instead.', ['channel', 'outcome']),
+  escalations: counter('bot_escalations_total', 'Conversations handed to the support team, for any reason.', ['channel']),
+  budgetAlerts: counter('bot_budget_alerts_total', 'Budget alerts raised, by budget.', ['scope']),
+};
+
+/**
+ * Renders every metric in the Prometheus text exposition format.
+ */
+export function renderMetrics(): string {
+  const lines = [
+    '# HELP bot_info The running bot instance.',
+    '# TYPE bot_info gauge',
+    `bot_info${renderLabels({ instance: config.bot.instanceId })} 1`,
+    '# HELP bot_uptime_seconds Time since the process started.',
+    '# TYPE bot_uptime_seconds gauge',
+    `bot_uptime_seconds ${Math.round(process.uptime())}`,
+    ...registry.flatMap(metric => metric.render()),
+  ];
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,82 @@
+import { config } from '../config.js';
+import { getStateDb } from './state-db.js';
+import { guildSettingsStore } from './guild-settings.js';
+import type { ReplyLength, ReplyStyle, ReplyTone } from '../prompts.js';
+
+/**
+ * How the bot words its replies in one channel, as set with `/persona`. Unset fields use the defaults in
+ * `config.prompts`. For tickets and forum posts this is the ticket channel or the forum, not the thread itself.
+ */
+export interface ChannelPersona {
+  channel_id: string;
+  guild_id: string;
+  persona: string | null;
+  tone: ReplyTone | null;
+  length: ReplyLength | null;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type ChannelPersonaUpdate = Partial<Pick<ChannelPersona, 'persona' | 'tone' | 'length'>>;
+
+// Long enough for a name and a sentence of character, short enough not to crowd out the instructions.
+export const MAX_PERSONA_LENGTH = 300;
+
+/**
+ * Per-channel reply styles stored in the state DB.
+ */
+export const personaStore = {
+  get: (channelId: string): ChannelPersona | undefined =>
+    getStateDb().prepare('SELECT * FROM channel_personas WHERE channel_id = ?').get(channelId) as ChannelPersona | undefined,
+
+  /**
+   * Applies changes on top of a channel's current persona.
+   * @returns The persona after the update.
+   */
+  update: (channelId: string, guildId: string, changes: ChannelPersonaUpdate, updatedBy: string): ChannelPersona => {
+    const merged = { ...personaStore.get(channelId), ...changes };
+    getStateDb().prepare(`
+      INSERT INTO channel_personas (channel_id, guild_id, persona, tone, length, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (channel_id) DO UPDATE SET
+        persona = excluded.persona, tone = excluded.tone, length = excluded.length,
+        updated_by = excluded.updated_by, updated_at = excluded.updated_at
+    `).run(channelId, guildId, merged.persona ?? null, merged.tone ?? null, merged.length ?? null, updatedBy);
+    return personaStore.get(channelId)!;
+  },
+
+  /** Returns a channel to the default persona. */
+  clear: (channelId: string): void => {
+    getStateDb().prepare('DELETE FROM channel_personas WHERE channel_id = ?').run(channelId);
+  },
+};
+
+/**
+ * The reply style used where nothing more specific is set, e.g. on the Discourse forum.
+ */
+export function defaultReplyStyle(): ReplyStyle {
+  return {
+    persona: config.prompts.persona,
+    tone: config.prompts.tone,
+    length: config.prompts.length,
+    productName: config.bot.productName,
+    supportEmail: config.bot.support_email,
+  };
+}
+
+/**
+ * Resolves the reply style for a channel of a Discord server: the channel's persona, then the server's product name
+ * and support address, then the defaults.
+ */
+export function replyStyleFor(guildId: string, channelId: string | null): ReplyStyle {
+  const defaults = defaultReplyStyle();
+  const persona = channelId ? personaStore.get(channelId) : undefined;
+  const settings = guildSettingsStore.get(guildId);
+  return {
+    persona: persona?.persona ?? defaults.persona,
+    tone: persona?.tone ?? defaults.tone,
+    length: persona?.length ?? defaults.length,
+    productName: settings?.product_name ?? defaults.productName,
+    supportEmail: settings?.support_email ?? defaults.supportEmail,
+  };
+}
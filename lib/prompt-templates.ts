@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+
+/**
+ * A prompt filled in with its variables, together with the template version it came from.
+ */
+export interface RenderedPrompt {
+  text: string;
+  /** The template and version used, e.g. `ai_reply_system@v2`; stored with answers so they can be traced back. */
+  version: string;
+}
+
+const VERSION_FILE = /^v(\d+)\.md$/;
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * Parses `config.prompts.pinnedVersions`, e.g. "ai_reply_system=1,intent_classifier=2".
+ */
+function pinnedVersions(): Map<string, number> {
+  const pins = new Map<string, number>();
+  for (const pin of config.prompts.pinnedVersions.split(',').map(entry => entry.trim()).filter(Boolean)) {
+    const [name, version] = pin.split('=').map(part => part.trim());
+    const number = parseInt(version?.replace(/^v/, '') ?? '', 10);
+    if (!name || Number.isNaN(number)) throw new Error(`Invalid entry "${pin}" in PROMPT_VERSIONS. Expected name=version, e.g. ai_reply_system=1.`);
+    pins.set(name, number);
+  }
+  return pins;
+}
+
+/**
+ * Lists the versions of a prompt template found on disk, oldest first.
+ */
+export function listPromptVersions(name: string): number[] {
+  const dir = path.join(config.prompts.templatesPath, name);
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .map(file => VERSION_FILE.exec(file)?.[1])
+    .filter((version): version is string => version !== undefined)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Fills in a prompt template with the given variables. The version used is the one pinned in `PROMPT_VERSIONS`, or
+ * else the newest file in the template's folder. Templates are read from disk on every call, so edited or newly added
+ * versions take effect without restarting the bot.
+ * @throws If the template or the pinned version does not exist, or the template uses a variable that was not given.
+ */
+export function renderPrompt(name: string, variables: Record<string, string>): RenderedPrompt {
+  const versions = listPromptVersions(name);
+  if (versions.length === 0) throw new Error(`No versions of the prompt template "${name}" found in ${config.prompts.templatesPath}.`);
+  const version = pinnedVersions().get(name) ?? versions[versions.length - 1];
+  if (!versions.includes(version)) throw new Error(`Prompt template "${name}" has no version ${version} (found ${versions.map(v => `v${v}`).join(', ')}).`);
+
+  const template = fs.readFileSync(path.join(config.prompts.templatesPath, name, `v${version}.md`), 'utf-8').trimEnd();
+  // Replaced in a single pass, so placeholders inside the values (e.g. typed by a user) are left alone.
+  const text = template.replace(PLACEHOLDER, (placeholder, variable: string) => {
+    if (!(variable in variables)) throw new Error(`Prompt template "${name}" v${version} uses ${placeholder}, which was not provided.`);
+    return variables[variable];
+  });
+  return { text, version: `${name}@v${version}` };
+}
@@ -0,0 +1,104 @@
+import { llm } from './llm.js';
+import { prompts } from '../prompts.js';
+import { chunkBlocks, markdownToBlocks } from './chunker.js';
+import { hashContent, openKnowledgeTable, replaceSourceChunks } from './knowledge-base.js';
+import { getStateDb } from './state-db.js';
+import { renderTranscriptForModel, ticketStore } from './ticket-store.js';
+import { guildSettingsStore } from './guild-settings.js';
+import { DEFAULT_NAMESPACE } from './kb-namespaces.js';
+
+/** Knowledge base ID prefix of approved answers, next to `doc:` and `web:`; the thread ID follows it. */
+export const RESOLVED_ANSWER_PREFIX = 'ticket:';
+
+export type ResolvedAnswerStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * A question/answer pair drawn from a closed ticket, waiting for (or past) staff review.
+ */
+export interface ResolvedAnswer {
+  id: number;
+  thread_id: string;
+  guild_id: string;
+  thread_name: string;
+  question: string;
+  answer: string;
+  status: ResolvedAnswerStatus;
+  review_message_id: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Persistent review queue of question/answer pairs drawn from closed tickets, stored in the state DB.
+ */
+export const resolvedAnswerStore = {
+  create: (entry: { threadId: string; guildId: string; threadName: string; question: string; answer: string }): ResolvedAnswer => {
+    const { lastInsertRowid } = getStateDb().prepare(`
+      INSERT INTO resolved_answers (thread_id, guild_id, thread_name, question, answer) VALUES (?, ?, ?, ?, ?)
+    `).run(entry.threadId, entry.guildId, entry.threadName, entry.question, entry.answer);
+    return resolvedAnswerStore.get(Number(lastInsertRowid))!;
+  },
+
+  get: (id: number): ResolvedAnswer | undefined =>
+    getStateDb().prepare('SELECT * FROM resolved_answers WHERE id = ?').get(id) as ResolvedAnswer | undefined,
+
+  setReviewMessage: (id: number, messageId: string): void => {
+    getStateDb().prepare('UPDATE resolved_answers SET review_message_id = ? WHERE id = ?').run(messageId, id);
+  },
+
+  /**
+   * Replaces the text of a pair, e.g. after a reviewer corrected it.
+   */
+  edit: (id: number, question: string, answer: string): void => {
+    getStateDb().prepare('UPDATE resolved_answers SET question = ?, answer = ? WHERE id = ?').run(question, answer, id);
+  },
+
+  markReviewed: (id: number, status: Exclude<ResolvedAnswerStatus, 'pending'>, reviewedBy: string): void => {
+    getStateDb().prepare(`
+      UPDATE resolved_answers SET status = ?, reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(status, reviewedBy, id);
+  },
+};
+
+/**
+ * Asks the model to distil a closed ticket into a standalone question and the answer that resolved it.
+ * @param threadId The ticket's thread ID; its messages must already be in the ticket store.
+ * @returns The pair, or null if the ticket was not resolved or the model's reply could not be used.
+ */
+export async function summarizeResolution(threadId: string): Promise<{ question: string; answer: string } | null> {
+  const ticket = ticketStore.get(threadId);
+  const messages = ticketStore.getMessages(threadId);
+  if (!ticket || !messages.some(m => m.author_type !== 'user')) return null;
+
+  const transcript = renderTranscriptForModel(messages);
+  try {
+    const response = await llm.chat([{ role: 'user', content: prompts.summarize_resolution(ticket.name, transcript) }], { temperature: 0, purpose: 'summarize_resolution' });
+    const json = /\{[\s\S]*\}/.exec(response.content ?? '')?.[0];
+    if (!json) return null;
+    const parsed = JSON.parse(json);
+    if (!parsed.resolved || typeof parsed.question !== 'string' || typeof parsed.answer !== 'string') return null;
+    if (!parsed.question.trim() || !parsed.answer.trim()) return null;
+    return { question: parsed.question.trim(), answer: parsed.answer.trim() };
+  } catch (error) {
+    console.error(`- Failed to summarize the resolution of ${ticket.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Embeds an approved pair as `ticket:<thread_id>`, linked back to the thread it came from, into the knowledge base
+ * namespace of the server the ticket was in. A ticket that is closed and approved again replaces its earlier pair.
+ * @returns The number of chunks stored.
+ */
+export async function publishResolvedAnswer(entry: ResolvedAnswer): Promise<number> {
+  const content = `# ${entry.question}\n\n${entry.answer}`;
+  const table = await openKnowledgeTable(guildSettingsStore.get(entry.guild_id)?.kb_namespace ?? DEFAULT_NAMESPACE);
+  return replaceSourceChunks(table, {
+    sourceId: `${RESOLVED_ANSWER_PREFIX}${entry.thread_id}`,
+    title: `TICKET: ${entry.thread_name}`,
+    url: `https://discord.com/channels/${entry.guild_id}/${entry.thread_id}`,
+    contentHash: hashContent(content),
+    chunks: chunkBlocks(markdownToBlocks(content)),
+  });
+}
@@ -0,0 +1,69 @@
+import { prompts, REPLY_LENGTHS, ReplyStyle } from '../prompts.js';
+import { AiReply, ESCALATION_OFFER, generateAiReply } from './agent.js';
+import { guildSettingsStore } from './guild-settings.js';
+import { describeAudience, STAFF_ACCESS } from './kb-audiences.js';
+import { llm } from './llm.js';
+import { replyStyleFor } from './personas.js';
+import { Ticket, ticketStore } from './ticket-store.js';
+
+/**
+ * What `/ask` shows a member of the support team.
+ */
+export interface StaffAnswer {
+  /** The answer for the team, which may draw on staff-only sources. */
+  reply: AiReply;
+  /** A reply to the customer based on it, or null when there was no answer to base one on or drafting failed. */
+  draft: string | null;
+}
+
+// How much of the ticket the reply draft is written from.
+const DRAFT_MESSAGES = 10;
+const DRAFT_MESSAGE_CHARS = 500;
+
+const AUTHOR_LABELS = { user: 'Customer', staff: 'Support', bot: 'Bot' } as const;
+
+/**
+ * Renders the latest messages of a ticket for the reply draft prompt.
+ */
+function renderTicketConversation(ticket: Ticket): string | null {
+  const messages = ticketStore.getMessages(ticket.thread_id).slice(-DRAFT_MESSAGES);
+  if (messages.length === 0) return null;
+  return messages
+    .map(m => `${AUTHOR_LABELS[m.author_type]}: ${m.content.length > DRAFT_MESSAGE_CHARS ? `${m.content.slice(0, DRAFT_MESSAGE_CHARS)}…` : m.content}`)
+    .join('\n');
+}
+
+/**
+ * Writes a reply to the customer from an answer for the team, leaving out what only the team may know.
+ */
+async function draftTicketReply(style: ReplyStyle, question: string, ticket: Ticket | undefined, reply: AiReply): Promise<string | null> {
+  const sources = reply.sources.map(source => `[${source.number}] ${source.label} (${describeAudience(source.audience)})`).join('\n');
+  const prompt = prompts.draft_ticket_reply(style.productName, question, ticket ? renderTicketConversation(ticket) : null, reply.text, sources);
+  try {
+    const response = await llm.chat([{ role: 'user', content: prompt }], { maxTokens: REPLY_LENGTHS[style.length].maxTokens, purpose: 'draft_reply' });
+    return response.content?.trim() || null;
+  } catch (error) {
+    console.warn('⚠️ Could not draft a reply to the customer:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Answers a question from the support team from every source of the server's namespace, staff-only ones included,
+ * and drafts a reply to the customer from the answer. Nothing is posted: the caller shows both to the team member
+ * alone.
+ * @param ticket The ticket the question was asked in, whose conversation the draft replies to; undefined elsewhere.
+ */
+export async function answerStaffQuestion(guildId: string, question: string, ticket?: Ticket): Promise<StaffAnswer> {
+  const style = replyStyleFor(guildId, ticket?.parent_id ?? null);
+  // No conversation ID: the question is not part of the ticket, and must not end up in its rolling summary.
+  const reply = await generateAiReply(ticket?.name ?? question.slice(0, 100), [{ role: 'user', content: question }], {
+    namespace: guildSettingsStore.get(guildId)?.kb_namespace,
+    access: STAFF_ACCESS,
+    style,
+  });
+  if (reply.escalate) return { reply, draft: null };
+  // The offer is meant for customers; for the team it only means the knowledge base had no answer to draft from.
+  if (reply.offersEscalation) return { reply: { ...reply, text: reply.text.replace(ESCALATION_OFFER, '').trim() }, draft: null };
+  return { reply, draft: await draftTicketReply(style, question, ticket, reply) };
+}
@@ -0,0 +1,275 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { config } from '../config.js';
+
+/**
+ * Schema statements for the bot's SQLite state database.
+ * Every statement must be idempotent, as they are re-run on each startup.
+ */
+const SCHEMA: string[] = [
+  `CREATE TABLE IF NOT EXISTS replied_posts (
+      id INTEGER PRIMARY KEY,
+      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE TABLE IF NOT EXISTS kb_manifest (
+      namespace TEXT NOT NULL,
+      source_id TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      chunk_count INTEGER NOT NULL,
+      ingested_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (namespace, source_id)
+    )`,
+  `CREATE TABLE IF NOT EXISTS tickets (
+      thread_id TEXT PRIMARY KEY,
+      guild_id TEXT NOT NULL,
+      parent_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      name TEXT NOT NULL,
+      opener_id TEXT NOT NULL,
+      opener_tag TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'open',
+      escalated INTEGER NOT NULL DEFAULT 0,
+      escalated_at DATETIME,
+      user_messages INTEGER NOT NULL DEFAULT 0,
+      bot_replies INTEGER NOT NULL DEFAULT 0,
+      human_replies INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      closed_at DATETIME,
+      closed_by TEXT,
+      transcript_path TEXT
+    )`,
+  `CREATE TABLE IF NOT EXISTS ticket_messages (
+      message_id TEXT PRIMARY KEY,
+      thread_id TEXT NOT NULL,
+      author_id TEXT NOT NULL,
+      author_tag TEXT NOT NULL,
+      author_type TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at DATETIME NOT NULL
+    )`,
+  `CREATE INDEX IF NOT EXISTS idx_ticket_messages_thread ON ticket_messages (thread_id, created_at)`,
+  `CREATE TABLE IF NOT EXISTS ticket_intents (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      thread_id TEXT NOT NULL,
+      message_id TEXT NOT NULL,
+      intent TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE TABLE IF NOT EXISTS ai_answers (
+      message_id TEXT PRIMARY KEY,
+      thread_id TEXT NOT NULL,
+      question TEXT NOT NULL,
+      answer TEXT NOT NULL,
+      source_ids TEXT NOT NULL,
+      prompt_version TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE TABLE IF NOT EXISTS answer_feedback (
+      message_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      vote TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (message_id, user_id)
+    )`,
+  `CREATE TABLE IF NOT EXISTS crawl_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      start_url TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      finished_at DATETIME
+    )`,
+  `CREATE TABLE IF NOT EXISTS crawl_frontier (
+      run_id INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      depth INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      canonical_url TEXT,
+      error TEXT,
+      PRIMARY KEY (run_id, url)
+    )`,
+  `CREATE TABLE IF NOT EXISTS resolved_answers (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      thread_id TEXT NOT NULL,
+      guild_id TEXT NOT NULL,
+      thread_name TEXT NOT NULL,
+      question TEXT NOT NULL,
+      answer TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      review_message_id TEXT,
+      reviewed_by TEXT,
+      reviewed_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE TABLE IF NOT EXISTS escalations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      thread_id TEXT NOT NULL,
+      guild_id TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      issue TEXT NOT NULL,
+      bot_attempts TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'open',
+      message_id TEXT,
+      pings INTEGER NOT NULL DEFAULT 1,
+      last_pinged_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      escalated_further INTEGER NOT NULL DEFAULT 0,
+      claimed_by TEXT,
+      claimed_at DATETIME,
+      resolved_by TEXT,
+      resolved_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE TABLE IF NOT EXISTS blocked_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guild_id TEXT NOT NULL,
+      channel_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      user_tag TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      detail TEXT,
+      content TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE TABLE IF NOT EXISTS guild_settings (
+      guild_id TEXT PRIMARY KEY,
+      ticket_channel_id TEXT NOT NULL,
+      support_role_id TEXT NOT NULL,
+      forum_channel_id TEXT,
+      review_channel_id TEXT,
+      escalation_channel_id TEXT,
+      escalation_role_id TEXT,
+      kb_namespace TEXT NOT NULL DEFAULT 'default',
+      panel_message_id TEXT,
+      updated_by TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE TABLE IF NOT EXISTS message_attachments (
+      message_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      thread_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      text TEXT NOT NULL,
+      truncated INTEGER NOT NULL DEFAULT 0,
+      redactions INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (message_id, name)
+    )`,
+  `CREATE INDEX IF NOT EXISTS idx_message_attachments_thread ON message_attachments (thread_id)`,
+  `CREATE TABLE IF NOT EXISTS channel_personas (
+      channel_id TEXT PRIMARY KEY,
+      guild_id TEXT NOT NULL,
+      persona TEXT,
+      tone TEXT,
+      length TEXT,
+      updated_by TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE TABLE IF NOT EXISTS llm_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      correlation_id TEXT,
+      instance_id TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      purpose TEXT NOT NULL,
+      prompt_tokens INTEGER NOT NULL,
+      completion_tokens INTEGER NOT NULL,
+      estimated INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL,
+      latency_ms INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE INDEX IF NOT EXISTS idx_llm_usage_correlation ON llm_usage (correlation_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage (created_at)`,
+  `CREATE TABLE IF NOT EXISTS budget_alerts (
+      scope TEXT NOT NULL,
+      scope_key TEXT NOT NULL,
+      threshold REAL NOT NULL,
+      spent_usd REAL NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (scope, scope_key, threshold)
+    )`,
+  `CREATE TABLE IF NOT EXISTS conversation_summaries (
+      conversation_id TEXT PRIMARY KEY,
+      summary TEXT NOT NULL,
+      message_count INTEGER NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE TABLE IF NOT EXISTS ticket_categories (
+      guild_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      role_id TEXT,
+      description TEXT,
+      updated_by TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (guild_id, name)
+    )`,
+  `CREATE TABLE IF NOT EXISTS ticket_counters (
+      guild_id TEXT PRIMARY KEY,
+      last_number INTEGER NOT NULL
+    )`,
+  `CREATE TABLE IF NOT EXISTS kb_audiences (
+      namespace TEXT NOT NULL,
+      source_id TEXT NOT NULL,
+      audience TEXT NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (namespace, source_id)
+    )`,
+  `CREATE TABLE IF NOT EXISTS discourse_post_failures (
+      post_id INTEGER PRIMARY KEY,
+      attempts INTEGER NOT NULL,
+      last_error TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+  `CREATE TABLE IF NOT EXISTS discourse_escalation_offers (
+      topic_id INTEGER PRIMARY KEY,
+      post_id INTEGER NOT NULL,
+      offered_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`,
+];
+
+/**
+ * Columns added to existing tables after they were first created, as [table, column, definition].
+ * Each is added on startup if the table does not have it yet.
+ */
+const ADDED_COLUMNS: [string, string, string][] = [
+  ['tickets', 'priority', "TEXT NOT NULL DEFAULT 'normal'"],
+  ['tickets', 'claimed_by', 'TEXT'],
+  ['tickets', 'assigned_to', 'TEXT'],
+  ['tickets', 'bot_muted', 'INTEGER NOT NULL DEFAULT 0'],
+  ['ai_answers', 'confidence', 'TEXT'],
+  ['ai_answers', 'top_score', 'REAL'],
+  ['ai_answers', 'grounding', 'TEXT'],
+  ['tickets', 'escalation_offer_message_id', 'TEXT'],
+  ['crawl_runs', 'namespace', "TEXT NOT NULL DEFAULT 'default'"],
+  ['guild_settings', 'product_name', 'TEXT'],
+  ['guild_settings', 'support_email', 'TEXT'],
+  ['ai_answers', 'language', 'TEXT'],
+  ['tickets', 'ticket_number', 'INTEGER'],
+  ['tickets', 'category', 'TEXT'],
+  ['tickets', 'product_version', 'TEXT'],
+];
+
+let db: Database.Database | null = null;
+
+/**
+ * Returns the shared connection to the bot's state database, creating the file and schema on first use.
+ * @returns The open better-sqlite3 database handle.
+ */
+export function getStateDb(): Database.Database {
+  if (db) return db;
+
+  fs.mkdirSync(path.dirname(config.paths.repliedPostsDb), { recursive: true });
+  db = new Database(config.paths.repliedPostsDb);
+  db.pragma('journal_mode = WAL');
+  for (const statement of SCHEMA) {
+    db.exec(statement);
+  }
+  for (const [table, column, definition] of ADDED_COLUMNS) {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(c => c.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+  return db;
+}
@@ -0,0 +1,70 @@
+import { getStateDb } from './state-db.js';
+import { guildSettingsStore } from './guild-settings.js';
+
+/**
+ * A choice in the ticket intake form, as set with `/ticket-category`. Tickets in a category are handled by its role.
+ */
+export interface TicketCategory {
+  guild_id: string;
+  name: string;
+  /** The role that handles tickets in this category; null leaves them to the server's support role. */
+  role_id: string | null;
+  /** Shown under the name in the intake form's category menu. */
+  description: string | null;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+// A Discord select menu holds at most 25 options.
+export const MAX_TICKET_CATEGORIES = 25;
+export const MAX_CATEGORY_NAME_LENGTH = 50;
+export const MAX_CATEGORY_DESCRIPTION_LENGTH = 100;
+
+/**
+ * Per-server ticket categories stored in the state DB.
+ */
+export const ticketCategoryStore = {
+  list: (guildId: string): TicketCategory[] =>
+    getStateDb().prepare('SELECT * FROM ticket_categories WHERE guild_id = ? ORDER BY name').all(guildId) as TicketCategory[],
+
+  get: (guildId: string, name: string): TicketCategory | undefined =>
+    getStateDb().prepare('SELECT * FROM ticket_categories WHERE guild_id = ? AND name = ?').get(guildId, name) as TicketCategory | undefined,
+
+  /**
+   * Adds a category, or replaces the role and description of an existing one.
+   */
+  save: (guildId: string, name: string, roleId: string | null, description: string | null, updatedBy: string): TicketCategory => {
+    getStateDb().prepare(`
+      INSERT INTO ticket_categories (guild_id, name, role_id, description, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT (guild_id, name) DO UPDATE SET
+        role_id = excluded.role_id, description = excluded.description, updated_by = excluded.updated_by, updated_at = excluded.updated_at
+    `).run(guildId, name, roleId, description, updatedBy);
+    return ticketCategoryStore.get(guildId, name)!;
+  },
+
+  /**
+   * Removes a category. Tickets already filed under it keep the name, and go to the server's support role from then on.
+   * @returns Whether the category existed.
+   */
+  remove: (guildId: string, name: string): boolean =>
+    getStateDb().prepare('DELETE FROM ticket_categories WHERE guild_id = ? AND name = ?').run(guildId, name).changes > 0,
+
+  /**
+   * Checks whether a role handles any category of a server, which makes its members support staff there.
+   */
+  isCategoryRole: (guildId: string, roleIds: string[]): boolean => {
+    if (roleIds.length === 0) return false;
+    return !!getStateDb().prepare(`SELECT 1 FROM ticket_categories WHERE guild_id = ? AND role_id IN (${roleIds.map(() => '?').join(', ')})`)
+      .get(guildId, ...roleIds);
+  },
+};
+
+/**
+ * Returns the role that handles a ticket: its category's role, or else the server's support role.
+ * @param category The ticket's category, or null for tickets opened without one and forum posts.
+ */
+export function supportRoleFor(guildId: string, category: string | null): string | null {
+  const routed = category ? ticketCategoryStore.get(guildId, category)?.role_id : null;
+  return routed ?? guildSettingsStore.get(guildId)?.support_role_id ?? null;
+}
@@ -0,0 +1,520 @@
+import {
+  AnyThreadChannel,
+  ChannelType,
+  ChatInputCommandInteraction,
+  InteractionContextType,
+  MessageFlags,
+  PermissionFlagsBits,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { config } from '../config.js';
+import { ticketStore, saveTranscript, TicketPriority } from './ticket-store.js';
+import {
+  backfillTicketMessages,
+  ensureTicket,
+  escalateTicket,
+  isForumPost,
+  isSupportThread,
+  markForumPostSolved,
+  queueResolutionForReview,
+  refreshEscalationMessage,
+  ticketPanelMessage,
+} from './discord-tickets.js';
+import { GuildSettings, guildSettingsStore, GuildSettingsUpdate } from './guild-settings.js';
+import { isValidNamespace } from './kb-namespaces.js';
+import { escalationStore } from './escalations.js';
+import { blockedEventStore } from './abuse-guard.js';
+import { feedbackStore } from './feedback-store.js';
+import { MAX_PERSONA_LENGTH, personaStore, replyStyleFor } from './personas.js';
+import { REPLY_LENGTHS, REPLY_TONES, ReplyLength, ReplyTone } from '../prompts.js';
+import {
+  MAX_CATEGORY_DESCRIPTION_LENGTH,
+  MAX_CATEGORY_NAME_LENGTH,
+  MAX_TICKET_CATEGORIES,
+  TicketCategory,
+  ticketCategoryStore,
+} from './ticket-categories.js';
+import { answerStaffQuestion } from './staff-answers.js';
+import { staffAnswerMessage } from './discord-replies.js';
+
+/**
+ * Who may run a ticket command: 'owner_or_staff' allows the thread owner and the support role, 'staff' only the support role.
+ * 'admin' commands configure the bot and need the Manage Server permission instead, as the support role may not exist yet.
+ */
+export type TicketCommandPermission = 'owner_or_staff' | 'staff' | 'admin';
+
+interface CommandData {
+  name: string;
+  toJSON(): RESTPostAPIChatInputApplicationCommandsJSONBody;
+}
+
+/**
+ * A slash command. Most commands act on the ticket thread they are run in, and are refused in threads that are not
+ * tickets or support forum posts; `scope: 'guild'` commands are staff and admin tools that work in any channel of a server.
+ */
+export type TicketCommand =
+  | {
+    data: CommandData;
+    scope?: 'thread';
+    permission: TicketCommandPermission;
+    execute: (interaction: ChatInputCommandInteraction, thread: AnyThreadChannel) => Promise<void>;
+  }
+  | {
+    data: CommandData;
+    scope: 'guild';
+    permission: 'staff' | 'admin';
+    execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
+  };
+
+const PRIORITIES: TicketPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+// Keeps the /feedback-stats reply well under Discord's 2000 character limit.
+const MAX_STATS_ROWS = 15;
+
+// Same for /blocked-events, whose rows also quote the blocked message.
+const MAX_BLOCKED_ROWS = 10;
+const BLOCKED_EXCERPT_CHARS = 80;
+
+const MAX_STAFF_QUESTION_LENGTH = 1000;
+
+// Optional settings /setup can unset again, by option name.
+const CLEARABLE_SETTINGS = {
+  forum_channel: 'forum_channel_id',
+  review_channel: 'review_channel_id',
+  escalation_channel: 'escalation_channel_id',
+  escalation_role: 'escalation_role_id',
+  product_name: 'product_name',
+  support_email: 'support_email',
+} as const;
+
+// Loose on purpose: the address only ends up in prompts, so this just catches obvious typos.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function describeGuildSettings(settings: GuildSettings): string {
+  const channel = (id: string | null) => id ? `<#${id}>` : 'not set';
+  const role = (id: string | null) => id ? `<@&${id}>` : 'not set';
+  return [
+    `- Ticket channel: ${channel(settings.ticket_channel_id)}`,
+    `- Support role: ${role(settings.support_role_id)}`,
+    `- Support forum: ${channel(settings.forum_channel_id)}`,
+    `- Review channel: ${channel(settings.review_channel_id)}`,
+    `- Escalation channel: ${channel(settings.escalation_channel_id)}`,
+    `- Escalation role: ${role(settings.escalation_role_id)}`,
+    `- Knowledge base namespace: \`${settings.kb_namespace}\``,
+    `- Product name: ${settings.product_name ?? `not set (${config.bot.productName})`}`,
+    `- Support email: ${settings.support_email ?? `not set (${config.bot.support_email})`}`,
+    settings.updated_by ? `Last changed by ${settings.updated_by} at ${settings.updated_at}.` : 'Taken from the environment; run /setup to store settings for this server.',
+  ].join('\n');
+}
+
+function describeTicketCategories(categories: TicketCategory[], supportRoleId: string | undefined): string {
+  if (categories.length === 0) return 'No ticket categories; the ticket form goes straight to the questions, and every ticket goes to the support role.';
+  const fallback = supportRoleId ? `<@&${supportRoleId}> (support role)` : 'the support role';
+  return categories
+    .map(category => `- **${category.name}**: ${category.role_id ? `<@&${category.role_id}>` : fallback}${category.description ? ` · ${category.description}` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Every slash command the bot handles.
+ * `deploy-commands.ts` registers exactly these definitions, so what is deployed and what the bot handles cannot drift.
+ */
+export const ticketCommands: TicketCommand[] = [
+  {
+    data: new SlashCommandBuilder().setName('close').setDescription('Closes the support ticket.'),
+    permission: 'owner_or_staff',
+    execute: async (interaction, thread) => {
+      await interaction.reply({ content: 'Closing this ticket...' });
+      await thread.send('This ticket has been closed and will be archived.');
+
+      try {
+        ensureTicket(thread, interaction.user);
+        await backfillTicketMessages(thread);
+        ticketStore.close(thread.id, interaction.user.username);
+        const escalation = escalationStore.getActive(thread.id);
+        if (escalation) {
+          escalationStore.resolve(escalation.id, interaction.user.id);
+          await refreshEscalationMessage(interaction.client, escalationStore.get(escalation.id)!)
+            .catch(error => console.warn(`- Could not update the post of escalation #${escalation.id}:`, error.message));
+        }
+        const transcript = saveTranscript(thread.id);
+        console.log(`🗂️ Saved transcript for ${thread.name} to ${transcript?.markdownPath}`);
+        const closedTicket = ticketStore.get(thread.id);
+        if (transcript && closedTicket && config.tickets.dmTranscriptOnClose) {
+          const opener = await interaction.client.users.fetch(closedTicket.opener_id);
+          await opener.send({
+            content: `Your support ticket **${thread.name}** has been closed. A transcript of the conversation is attached for your records.`,
+            files: [transcript.markdownPath],
+          }).catch(error => console.warn(`- Could not DM the transcript to ${opener.username}:`, error.message));
+        }
+      } catch (error) {
+        console.error(`- Failed to archive the transcript of ${thread.name}:`, error);
+      }
+
+      await thread.setLocked(true);
+      await thread.setArchived(true);
+
+      // Summarizing takes a model call, so it runs after the thread is archived rather than holding up the close.
+      await queueResolutionForReview(thread).catch(error => console.error(`- Failed to queue the resolution of ${thread.name} for review:`, error));
+    },
+  },
+  {
+    data: new SlashCommandBuilder().setName('claim').setDescription('Takes ownership of this ticket as a support agent.'),
+    permission: 'staff',
+    execute: async (interaction, thread) => {
+      ensureTicket(thread, interaction.user);
+      ticketStore.claim(thread.id, interaction.user.id);
+      const escalation = escalationStore.getActive(thread.id);
+      if (escalation?.status === 'open') {
+        escalationStore.claim(escalation.id, interaction.user.id);
+        await refreshEscalationMessage(interaction.client, escalationStore.get(escalation.id)!)
+          .catch(error => console.warn(`- Could not update the post of escalation #${escalation.id}:`, error.message));
+      }
+      await interaction.reply({ content: `🙋 ${interaction.user.toString()} has claimed this ticket and will take it from here.` });
+    },
+  },
+  {
+    data: new SlashCommandBuilder()
+      .setName('assign')
+      .setDescription('Assigns this ticket to a support agent.')
+      .addUserOption(option => option.setName('user').setDescription('The agent to assign the ticket to.').setRequired(true)),
+    permission: 'staff',
+    execute: async (interaction, thread) => {
+      const assignee = interaction.options.getUser('user', true);
+      ensureTicket(thread, interaction.user);
+      ticketStore.assign(thread.id, assignee.id);
+      await thread.members.add(assignee.id);
+      await interaction.reply({ content: `📌 This ticket has been assigned to ${assignee.toString()}.` });
+    },
+  },
+  {
+    data: new SlashCommandBuilder()
+      .setName('priority')
+      .setDescription('Sets the priority of this ticket.')
+      .addStringOption(option => option
+        .setName('level')
+        .setDescription('The new priority.')
+        .setRequired(true)
+        .addChoices(...PRIORITIES.map(priority => ({ name: priority, value: priority })))),
+    permission: 'staff',
+    execute: async (interaction, thread) => {
+      const priority = interaction.options.getString('level', true) as TicketPriority;
+      ensureTicket(thread, interaction.user);
+      ticketStore.setPriority(thread.id, priority);
+      await interaction.reply({ content: `🚦 Priority set to **${priority}**.` });
+    },
+  },
+  {
+    data: new SlashCommandBuilder().setName('escalate').setDescription('Escalates this ticket to the support team.'),
+    permission: 'owner_or_staff',
+    execute: async (interaction, thread) => {
+      ensureTicket(thread, interaction.user);
+      // Summarizing the ticket takes a model call, longer than Discord's three second deadline.
+      await interaction.deferReply();
+      await interaction.editReply({ content: `🚨 ${await escalateTicket(thread, `/escalate was run by ${interaction.user.username}`)}` });
+    },
+  },
+  {
+    data: new SlashCommandBuilder().setName('solved').setDescription('Marks this forum post as solved.'),
+    permission: 'owner_or_staff',
+    execute: async (interaction, thread) => {
+      if (!isForumPost(thread)) {
+        await interaction.reply({ content: '/solved only works in posts of the support forum.', flags: MessageFlags.Ephemeral });
+        return;
+      }
+      ensureTicket(thread, interaction.user);
+      // Summarizing the resolution takes a model call, longer than Discord's three second deadline.
+      await interaction.deferReply();
+      await backfillTicketMessages(thread);
+      await markForumPostSolved(thread);
+      await interaction.editReply({ content: `✅ ${interaction.user.toString()} marked this post as solved. Thanks for letting us know!` });
+    },
+  },
+  {
+    data: new SlashCommandBuilder().setName('reopen').setDescription('Reopens a closed support ticket.'),
+    permission: 'owner_or_staff',
+    execute: async (interaction, thread) => {
+      if (thread.archived) await thread.setArchived(false);
+      if (thread.locked) await thread.setLocked(false);
+      ensureTicket(thread, interaction.user);
+      ticketStore.reopen(thread.id);
+      await interaction.reply({ content: '🔓 This ticket has been reopened.' });
+    },
+  },
+  {
+    data: new SlashCommandBuilder()
+      .setName('adduser')
+      .setDescription('Adds someone to this ticket thread.')
+      .addUserOption(option => option.setName('user').setDescription('The person to add.').setRequired(true)),
+    permission: 'owner_or_staff',
+    execute: async (interaction, thread) => {
+      const user = interaction.options.getUser('user', true);
+      await thread.members.add(user.id);
+      await interaction.reply({ content: `➕ ${user.toString()} has been added to this ticket.` });
+    },
+  },
+  {
+    data: new SlashCommandBuilder()
+      .setName('mute-bot')
+      .setDescription('Stops the AI from replying in this ticket, e.g. once a human has taken over.')
+      .addBooleanOption(option => option.setName('muted').setDescription('Set to false to let the AI reply again. Defaults to true.')),
+    permission: 'staff',
+    execute: async (interaction, thread) => {
+      const muted = interaction.options.getBoolean('muted') ?? true;
+      ensureTicket(thread, interaction.user);
+      ticketStore.setBotMuted(thread.id, muted);
+      await interaction.reply({
+        content: muted ? '🔇 The AI assistant will no longer reply in this ticket.' : '🔊 The AI assistant will reply in this ticket again.',
+        flags: MessageFlags.Ephemeral,
+      });
+    },
+  },
+  {
+    data: new SlashCommandBuilder().setName('feedback-stats').setDescription('Shows how helpful AI answers were, per knowledge base source.'),
+    scope: 'guild',
+    permission: 'staff',
+    execute: async (interaction) => {
+      const stats = feedbackStore.sourceStats(interaction.guildId!);
+      if (stats.length === 0) {
+        await interaction.reply({ content: 'No AI answers have been recorded yet.', flags: MessageFlags.Ephemeral });
+        return;
+      }
+      const lines = stats.slice(0, MAX_STATS_ROWS).map(s => {
+        const rate = s.helpfulRate === null ? 'no votes' : `${Math.round(s.helpfulRate * 100)}% helpful`;
+        return `\`${s.sourceId}\`: ${rate} (✅ ${s.solved} · 👎 ${s.notHelpful} · 🙋 ${s.human}) across ${s.answers} answers`;
+      });
+      const more = stats.length > MAX_STATS_ROWS ? `\n…and ${stats.length - MAX_STATS_ROWS} more sources.` : '';
+      await interaction.reply({ content: `📊 **Answer feedback by source**\n${lines.join('\n')}${more}`, flags: MessageFlags.Ephemeral });
+    },
+  },
+  {
+    data: new SlashCommandBuilder().setName('blocked-events').setDescription('Shows the latest messages the bot refused to process.'),
+    scope: 'guild',
+    permission: 'staff',
+    execute: async (interaction) => {
+      const events = blockedEventStore.listRecent(interaction.guildId!, MAX_BLOCKED_ROWS);
+      if (events.length === 0) {
+        await interaction.reply({ content: 'No messages have been blocked yet.', flags: MessageFlags.Ephemeral });
+        return;
+      }
+      const lines = events.map(e => {
+        const excerpt = e.content.replace(/\s+/g, ' ').slice(0, BLOCKED_EXCERPT_CHARS).replace(/`/g, "'");
+        return `${e.created_at} · <@${e.user_id}> in <#${e.channel_id}> · **${e.reason}**${e.detail ? ` (${e.detail.slice(0, BLOCKED_EXCERPT_CHARS)})` : ''}\n\`${excerpt}\``;
+      });
+      await interaction.reply({ content: `🛡️ **Latest blocked messages**\n${lines.join('\n')}`, flags: MessageFlags.Ephemeral, allowedMentions: { parse: [] } });
+    },
+  },
+  {
+    data: new SlashCommandBuilder()
+      .setName('ask')
+      .setDescription('Asks the AI privately, using internal knowledge too, and drafts a reply for the ticket.')
+      .addStringOption(option => option.setName('question').setDescription('What you want to know.').setRequired(true).setMaxLength(MAX_STAFF_QUESTION_LENGTH)),
+    scope: 'guild',
+    permission: 'staff',
+    execute: async (interaction) => {
+      // Retrieval and two model calls take longer than Discord's three second deadline.
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+      const channel = interaction.channel;
+      const ticket = channel?.isThread() && isSupportThread(channel) ? ticketStore.get(channel.id) : undefined;
+      const answer = await answerStaffQuestion(interaction.guildId!, interaction.options.getString('question', true), ticket);
+      await interaction.editReply(staffAnswerMessage(answer));
+    },
+  },
+  {
+    data: new SlashCommandBuilder()
+      .setName('setup')
+      .setDescription('Configures the support bot for this server. Run without options to see the current settings.')
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+      .setContexts(InteractionContextType.Guild)
+      .addChannelOption(option => option.setName('ticket_channel').setDescription('Text channel for the ticket panel; tickets are private threads of it.').addChannelTypes(ChannelType.GuildText))
+      .addRoleOption(option => option.setName('support_role').setDescription('Role of the support team.'))
+      .addChannelOption(option => option.setName('forum_channel').setDescription('Forum whose posts the bot answers.').addChannelTypes(ChannelType.GuildForum))
+      .addChannelOption(option => option.setName('review_channel').setDescription('Staff channel where answers from closed tickets are reviewed.').addChannelTypes(ChannelType.GuildText))
+      .addChannelOption(option => option.setName('escalation_channel').setDescription('Staff channel that receives escalations.').addChannelTypes(ChannelType.GuildText))
+      .addRoleOption(option => option.setName('escalation_role').setDescription('Role pinged when an escalation stays unclaimed.'))
+      .addStringOption(option => option.setName('kb_namespace').setDescription('Knowledge base namespace to answer from, e.g. the product name.'))
+      .addStringOption(option => option.setName('product_name').setDescription('Name of the product the bot supports, as used in its replies.').setMaxLength(100))
+      .addStringOption(option => option.setName('support_email').setDescription('Address the bot gives users who want to contact support directly.').setMaxLength(200))
+      .addStringOption(option => option
+        .setName('clear')
+        .setDescription('Unsets an optional setting.')
+        .addChoices(...Object.keys(CLEARABLE_SETTINGS).map(name => ({ name, value: name }))))
+      .addBooleanOption(option => option.setName('post_panel').setDescription('Post the ticket panel. Defaults to true when ticket_channel is given.')),
+    scope: 'guild',
+    permission: 'admin',
+    execute: async (interaction) => {
+      const guildId = interaction.guildId!;
+      const previous = guildSettingsStore.get(guildId);
+      const changes: GuildSettingsUpdate = {};
+      const ticketChannel = interaction.options.getChannel('ticket_channel');
+      if (ticketChannel) changes.ticket_channel_id = ticketChannel.id;
+      const supportRole = interaction.options.getRole('support_role');
+      if (supportRole) changes.support_role_id = supportRole.id;
+      const forumChannel = interaction.options.getChannel('forum_channel');
+      if (forumChannel) changes.forum_channel_id = forumChannel.id;
+      const reviewChannel = interaction.options.getChannel('review_channel');
+      if (reviewChannel) changes.review_channel_id = reviewChannel.id;
+      const escalationChannel = interaction.options.getChannel('escalation_channel');
+      if (escalationChannel) changes.escalation_channel_id = escalationChannel.id;
+      const escalationRole = interaction.options.getRole('escalation_role');
+      if (escalationRole) changes.escalation_role_id = escalationRole.id;
+      const namespace = interaction.options.getString('kb_namespace');
+      if (namespace !== null) {
+        if (!isValidNamespace(namespace)) {
+          await interaction.reply({ content: `\`${namespace}\` is not a valid namespace. Use up to 40 lowercase letters, digits, "-" and "_".`, flags: MessageFlags.Ephemeral });
+          return;
+        }
+        changes.kb_namespace = namespace;
+      }
+      const productName = interaction.options.getString('product_name');
+      if (productName !== null) changes.product_name = productName.trim();
+      const supportEmail = interaction.options.getString('support_email');
+      if (supportEmail !== null) {
+        if (!EMAIL_PATTERN.test(supportEmail.trim())) {
+          await interaction.reply({ content: `\`${supportEmail}\` does not look like an email address.`, flags: MessageFlags.Ephemeral });
+          return;
+        }
+        changes.support_email = supportEmail.trim();
+      }
+      const clear = interaction.options.getString('clear') as keyof typeof CLEARABLE_SETTINGS | null;
+      if (clear) changes[CLEARABLE_SETTINGS[clear]] = null;
+      const postPanel = interaction.options.getBoolean('post_panel') ?? !!ticketChannel;
+
+      if (Object.keys(changes).length === 0 && !postPanel) {
+        await interaction.reply({
+          content: previous ? `⚙️ **Support bot settings**\n${describeGuildSettings(previous)}` : 'This server is not set up yet. Run /setup with a ticket_channel and a support_role.',
+          flags: MessageFlags.Ephemeral,
+          allowedMentions: { parse: [] },
+        });
+        return;
+      }
+      if (!previous && (!changes.ticket_channel_id || !changes.support_role_id)) {
+        await interaction.reply({ content: 'The first /setup needs both a ticket_channel and a support_role.', flags: MessageFlags.Ephemeral });
+        return;
+      }
+
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+      let settings = guildSettingsStore.update(guildId, changes, interaction.user.username);
+      if (postPanel) {
+        const channel = await interaction.guild!.channels.fetch(settings.ticket_channel_id);
+        if (!channel?.isSendable()) {
+          await interaction.editReply({ content: `Settings saved, but I can't post in <#${settings.ticket_channel_id}>. Check my permissions there and run /setup post_panel:true.` });
+          return;
+        }
+        // Replace the previous panel, wherever it was, so there is only ever one "Create Ticket" button.
+        if (previous?.panel_message_id) {
+          const oldChannel = await interaction.guild!.channels.fetch(previous.ticket_channel_id).catch(() => null);
+          if (oldChannel?.isTextBased()) await oldChannel.messages.delete(previous.panel_message_id).catch(() => undefined);
+        }
+        const panel = await channel.send(ticketPanelMessage());
+        settings = guildSettingsStore.update(guildId, { panel_message_id: panel.id }, interaction.user.username);
+      }
+      console.log(`⚙️ ${interaction.user.username} updated the settings of ${interaction.guild?.name ?? guildId}.`);
+      await interaction.editReply({ content: `✅ Settings saved${postPanel ? ' and ticket panel posted' : ''}.\n${describeGuildSettings(settings)}`, allowedMentions: { parse: [] } });
+    },
+  },
+  {
+    data: new SlashCommandBuilder()
+      .setName('persona')
+      .setDescription('Sets how the bot words its replies in a channel. Run without options to see the current persona.')
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+      .setContexts(InteractionContextType.Guild)
+      .addChannelOption(option => option
+        .setName('channel')
+        .setDescription('Ticket channel or forum to configure. Defaults to this channel, or the channel of this thread.')
+        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildForum))
+      .addStringOption(option => option.setName('persona').setDescription('Who the bot presents itself as, e.g. "Ada, the Acme support assistant".').setMaxLength(MAX_PERSONA_LENGTH))
+      .addStringOption(option => option
+        .setName('tone')
+        .setDescription('How formal the replies are.')
+        .addChoices(...Object.keys(REPLY_TONES).map(name => ({ name, value: name }))))
+      .addStringOption(option => option
+        .setName('length')
+        .setDescription('How long the replies are.')
+        .addChoices(...Object.keys(REPLY_LENGTHS).map(name => ({ name, value: name }))))
+      .addBooleanOption(option => option.setName('reset').setDescription('Go back to the default persona, tone and length.')),
+    scope: 'guild',
+    permission: 'admin',
+    execute: async (interaction) => {
+      const guildId = interaction.guildId!;
+      const here = interaction.channel;
+      const channelId = interaction.options.getChannel('channel')?.id ?? (here?.isThread() ? here.parentId : here?.id);
+      if (!channelId) {
+        await interaction.reply({ content: 'Pick the channel to configure with the channel option.', flags: MessageFlags.Ephemeral });
+        return;
+      }
+      const persona = interaction.options.getString('persona');
+      const tone = interaction.options.getString('tone') as ReplyTone | null;
+      const length = interaction.options.getString('length') as ReplyLength | null;
+      const reset = interaction.options.getBoolean('reset') ?? false;
+
+      const changed = reset || persona !== null || !!tone || !!length;
+      if (reset) {
+        personaStore.clear(channelId);
+      } else if (changed) {
+        personaStore.update(channelId, guildId, {
+          ...(persona !== null && { persona: persona.trim() || null }),
+          ...(tone && { tone }),
+          ...(length && { length }),
+        }, interaction.user.username);
+      }
+      if (changed) console.log(`🎭 ${interaction.user.username} changed the persona of channel ${channelId}.`);
+
+      const style = replyStyleFor(guildId, channelId);
+      await interaction.reply({
+        content: `${changed ? '✅ Saved. ' : ''}Persona in <#${channelId}>:\n- Persona: ${style.persona}\n- Tone: ${style.tone}\n- Length: ${style.length}\n- Product: ${style.productName} (support email ${style.supportEmail})`,
+        flags: MessageFlags.Ephemeral,
+        allowedMentions: { parse: [] },
+      });
+    },
+  },
+  {
+    data: new SlashCommandBuilder()
+      .setName('ticket-category')
+      .setDescription('Adds, changes or removes a category of the ticket form. Run without options to list them.')
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+      .setContexts(InteractionContextType.Guild)
+      .addStringOption(option => option.setName('name').setDescription('The category, e.g. "Billing".').setMaxLength(MAX_CATEGORY_NAME_LENGTH))
+      .addRoleOption(option => option.setName('role').setDescription('Role that handles tickets in this category. Defaults to the support role.'))
+      .addStringOption(option => option.setName('description').setDescription('Shown under the name in the category menu.').setMaxLength(MAX_CATEGORY_DESCRIPTION_LENGTH))
+      .addBooleanOption(option => option.setName('remove').setDescription('Remove the category.')),
+    scope: 'guild',
+    permission: 'admin',
+    execute: async (interaction) => {
+      const guildId = interaction.guildId!;
+      const name = interaction.options.getString('name')?.trim();
+      const role = interaction.options.getRole('role');
+      const description = interaction.options.getString('description')?.trim() || null;
+      const remove = interaction.options.getBoolean('remove') ?? false;
+      const supportRoleId = guildSettingsStore.get(guildId)?.support_role_id;
+
+      if (!name) {
+        await interaction.reply({
+          content: `🗂️ **Ticket categories**\n${describeTicketCategories(ticketCategoryStore.list(guildId), supportRoleId)}`,
+          flags: MessageFlags.Ephemeral,
+          allowedMentions: { parse: [] },
+        });
+        return;
+      }
+      if (remove) {
+        const removed = ticketCategoryStore.remove(guildId, name);
+        if (removed) console.log(`🗂️ ${interaction.user.username} removed the ticket category ${name}.`);
+        await interaction.reply({ content: removed ? `✅ Removed the category **${name}**.` : `There is no category called **${name}**.`, flags: MessageFlags.Ephemeral });
+        return;
+      }
+      const existing = ticketCategoryStore.get(guildId, name);
+      if (!existing && ticketCategoryStore.list(guildId).length >= MAX_TICKET_CATEGORIES) {
+        await interaction.reply({ content: `A server can have at most ${MAX_TICKET_CATEGORIES} ticket categories. Remove one first.`, flags: MessageFlags.Ephemeral });
+        return;
+      }
+      ticketCategoryStore.save(guildId, name, role?.id ?? existing?.role_id ?? null, description ?? existing?.description ?? null, interaction.user.username);
+      console.log(`🗂️ ${interaction.user.username} saved the ticket category ${name}.`);
+      await interaction.reply({
+        content: `✅ Saved. Ticket categories:\n${describeTicketCategories(ticketCategoryStore.list(guildId), supportRoleId)}`,
+        flags: MessageFlags.Ephemeral,
+        allowedMentions: { parse: [] },
+      });
+    },
+  },
+];
@@ -0,0 +1,287 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import { getStateDb } from './state-db.js';
+
+export type TicketKind = 'ticket' | 'forum';
+export type TicketStatus = 'open' | 'closed';
+export type TicketPriority = 'low' | 'normal' | 'high' | 'urgent';
+/** Who wrote a message: the ticket opener, another human (usually staff), or the bot itself. */
+export type AuthorType = 'user' | 'staff' | 'bot';
+
+export interface Ticket {
+  thread_id: string;
+  guild_id: string;
+  parent_id: string;
+  kind: TicketKind;
+  name: string;
+  opener_id: string;
+  opener_tag: string;
+  status: TicketStatus;
+  escalated: number;
+  escalated_at: string | null;
+  user_messages: number;
+  bot_replies: number;
+  human_replies: number;
+  created_at: string;
+  closed_at: string | null;
+  closed_by: string | null;
+  transcript_path: string | null;
+  priority: TicketPriority;
+  claimed_by: string | null;
+  assigned_to: string | null;
+  bot_muted: number;
+  /** The bot message that offered to escalate, while the user has not yet answered it. */
+  escalation_offer_message_id: string | null;
+  /** Counts up per server, for tickets opened from the intake form; null for forum posts and older tickets. */
+  ticket_number: number | null;
+  /** The intake form's answers, where it was used. The category decides which role handles the ticket. */
+  category: string | null;
+  product_version: string | null;
+}
+
+export interface TicketMessage {
+  message_id: string;
+  thread_id: string;
+  author_id: string;
+  author_tag: string;
+  author_type: AuthorType;
+  content: string;
+  created_at: string;
+}
+
+export interface TicketIntent {
+  message_id: string;
+  intent: string;
+  created_at: string;
+}
+
+const COUNTER_COLUMNS: Record<AuthorType, string> = {
+  user: 'user_messages',
+  bot: 'bot_replies',
+  staff: 'human_replies',
+};
+
+/**
+ * Persistent record of every support ticket and forum thread the bot handles, stored in the state DB.
+ */
+export const ticketStore = {
+  /**
+   * Records a newly opened ticket. Opening a ticket that is already known is a no-op.
+   */
+  open: (ticket: {
+    threadId: string;
+    guildId: string;
+    parentId: string;
+    kind: TicketKind;
+    name: string;
+    openerId: string;
+    openerTag: string;
+    number?: number;
+    category?: string | null;
+    productVersion?: string | null;
+    priority?: TicketPriority;
+  }): void => {
+    getStateDb().prepare(`
+      INSERT OR IGNORE INTO tickets (thread_id, guild_id, parent_id, kind, name, opener_id, opener_tag, ticket_number, category, product_version, priority)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      ticket.threadId,
+      ticket.guildId,
+      ticket.parentId,
+      ticket.kind,
+      ticket.name,
+      ticket.openerId,
+      ticket.openerTag,
+      ticket.number ?? null,
+      ticket.category ?? null,
+      ticket.productVersion ?? null,
+      ticket.priority ?? 'normal',
+    );
+  },
+
+  /**
+   * Hands out the next ticket number of a server, starting at 1. Numbers are never reused, even when the thread is
+   * never created.
+   */
+  nextNumber: (guildId: string): number =>
+    (getStateDb().prepare(`
+      INSERT INTO ticket_counters (guild_id, last_number) VALUES (?, 1)
+      ON CONFLICT (guild_id) DO UPDATE SET last_number = last_number + 1
+      RETURNING last_number
+    `).get(guildId) as { last_number: number }).last_number,
+
+  /**
+   * Returns a user's open private ticket in a server, if they have one. Forum posts do not count.
+   */
+  findOpenByOpener: (guildId: string, openerId: string): Ticket | undefined =>
+    getStateDb().prepare(`
+      SELECT * FROM tickets WHERE guild_id = ? AND opener_id = ? AND kind = 'ticket' AND status = 'open' ORDER BY created_at DESC LIMIT 1
+    `).get(guildId, openerId) as Ticket | undefined,
+
+  get: (threadId: string): Ticket | undefined =>
+    getStateDb().prepare('SELECT * FROM tickets WHERE thread_id = ?').get(threadId) as Ticket | undefined,
+
+  /**
+   * Lists tickets, newest first, optionally only those of one server, status or kind.
+   */
+  list: (filter: { guildId?: string; status?: TicketStatus; kind?: TicketKind; limit: number; offset: number }): Ticket[] =>
+    getStateDb().prepare(`
+      SELECT * FROM tickets
+      WHERE (@guildId IS NULL OR guild_id = @guildId) AND (@status IS NULL OR status = @status) AND (@kind IS NULL OR kind = @kind)
+      ORDER BY created_at DESC, thread_id DESC LIMIT @limit OFFSET @offset
+    `).all({ guildId: filter.guildId ?? null, status: filter.status ?? null, kind: filter.kind ?? null, limit: filter.limit, offset: filter.offset }) as Ticket[],
+
+  /**
+   * Appends a message to a ticket's transcript and bumps the matching reply counter.
+   * Messages are keyed by their Discord ID, so recording the same message twice has no effect.
+   */
+  recordMessage: (message: { messageId: string; threadId: string; authorId: string; authorTag: string; authorType: AuthorType; content: string; createdAt: Date }): void => {
+    const db = getStateDb();
+    db.transaction(() => {
+      const inserted = db.prepare(`
+        INSERT OR IGNORE INTO ticket_messages (message_id, thread_id, author_id, author_tag, author_type, content, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(message.messageId, message.threadId, message.authorId, message.authorTag, message.authorType, message.content, message.createdAt.toISOString());
+      if (inserted.changes > 0) {
+        db.prepare(`UPDATE tickets SET ${COUNTER_COLUMNS[message.authorType]} = ${COUNTER_COLUMNS[message.authorType]} + 1 WHERE thread_id = ?`).run(message.threadId);
+      }
+    })();
+  },
+
+  /**
+   * Replaces the recorded text of an edited message, e.g. a streamed AI answer once it is complete.
+   */
+  updateMessageContent: (messageId: string, content: string): void => {
+    getStateDb().prepare('UPDATE ticket_messages SET content = ? WHERE message_id = ?').run(content, messageId);
+  },
+
+  recordIntent: (threadId: string, messageId: string, intent: string): void => {
+    getStateDb().prepare('INSERT INTO ticket_intents (thread_id, message_id, intent) VALUES (?, ?, ?)').run(threadId, messageId, intent);
+  },
+
+  /**
+   * Flags a ticket as escalated to the support team. The time of the first escalation is kept.
+   */
+  markEscalated: (threadId: string): void => {
+    getStateDb().prepare(`
+      UPDATE tickets SET escalated = 1, escalated_at = COALESCE(escalated_at, CURRENT_TIMESTAMP) WHERE thread_id = ?
+    `).run(threadId);
+  },
+
+  close: (threadId: string, closedBy: string): void => {
+    getStateDb().prepare(`
+      UPDATE tickets SET status = 'closed', closed_at = CURRENT_TIMESTAMP, closed_by = ? WHERE thread_id = ?
+    `).run(closedBy, threadId);
+  },
+
+  /**
+   * Marks a closed ticket as open again, clearing its closing details.
+   */
+  reopen: (threadId: string): void => {
+    getStateDb().prepare(`
+      UPDATE tickets SET status = 'open', closed_at = NULL, closed_by = NULL WHERE thread_id = ?
+    `).run(threadId);
+  },
+
+  /**
+   * Records the staff member who took ownership of a ticket; claiming also assigns it to them.
+   */
+  claim: (threadId: string, userId: string): void => {
+    getStateDb().prepare('UPDATE tickets SET claimed_by = ?, assigned_to = ? WHERE thread_id = ?').run(userId, userId, threadId);
+  },
+
+  assign: (threadId: string, userId: string): void => {
+    getStateDb().prepare('UPDATE tickets SET assigned_to = ? WHERE thread_id = ?').run(userId, threadId);
+  },
+
+  setPriority: (threadId: string, priority: TicketPriority): void => {
+    getStateDb().prepare('UPDATE tickets SET priority = ? WHERE thread_id = ?').run(priority, threadId);
+  },
+
+  /**
+   * Stops (or resumes) AI replies in a ticket, typically once a human has taken over.
+   */
+  setBotMuted: (threadId: string, muted: boolean): void => {
+    getStateDb().prepare('UPDATE tickets SET bot_muted = ? WHERE thread_id = ?').run(muted ? 1 : 0, threadId);
+  },
+
+  /**
+   * Remembers that the bot offered to escalate in the given message, so the user's next reply can accept the offer.
+   */
+  offerEscalation: (threadId: string, messageId: string): void => {
+    getStateDb().prepare('UPDATE tickets SET escalation_offer_message_id = ? WHERE thread_id = ?').run(messageId, threadId);
+  },
+
+  clearEscalationOffer: (threadId: string): void => {
+    getStateDb().prepare('UPDATE tickets SET escalation_offer_message_id = NULL WHERE thread_id = ?').run(threadId);
+  },
+
+  getMessages: (threadId: string): TicketMessage[] =>
+    getStateDb().prepare('SELECT * FROM ticket_messages WHERE thread_id = ? ORDER BY created_at, message_id').all(threadId) as TicketMessage[],
+
+  getIntents: (threadId: string): TicketIntent[] =>
+    getStateDb().prepare('SELECT message_id, intent, created_at FROM ticket_intents WHERE thread_id = ? ORDER BY id').all(threadId) as TicketIntent[],
+};
+
+/**
+ * Renders a ticket and its messages as a human-readable Markdown transcript.
+ */
+export function renderTranscriptMarkdown(ticket: Ticket, messages: TicketMessage[], intents: TicketIntent[]): string {
+  const intentCounts = new Map<string, number>();
+  for (const { intent } of intents) intentCounts.set(intent, (intentCounts.get(intent) ?? 0) + 1);
+
+  const header = [
+    `# Transcript: ${ticket.name}`,
+    '',
+    `- Thread: ${ticket.thread_id} (${ticket.kind})`,
+    ...(ticket.ticket_number ? [`- Ticket number: ${ticket.ticket_number}`] : []),
+    ...(ticket.category ? [`- Category: ${ticket.category}`] : []),
+    ...(ticket.product_version ? [`- Product and version: ${ticket.product_version}`] : []),
+    `- Opened by: ${ticket.opener_tag} (${ticket.opener_id}) at ${ticket.created_at}`,
+    `- Closed by: ${ticket.closed_by ?? 'n/a'} at ${ticket.closed_at ?? 'n/a'}`,
+    `- Priority: ${ticket.priority}`,
+    `- Claimed by: ${ticket.claimed_by ?? 'nobody'}; assigned to: ${ticket.assigned_to ?? 'nobody'}`,
+    `- Escalated: ${ticket.escalated ? `yes, at ${ticket.escalated_at}` : 'no'}`,
+    `- Messages: ${ticket.user_messages} from the user, ${ticket.bot_replies} bot replies, ${ticket.human_replies} human replies`,
+    `- Intents: ${[...intentCounts].map(([intent, count]) => `${intent} ×${count}`).join(', ') || 'none'}`,
+  ];
+  const body = messages.map(m => `**${m.author_tag}** (${m.author_type}) — ${m.created_at}\n\n${m.content || '_(no text)_'}`);
+
+  return [...header, '', '---', '', body.join('\n\n---\n\n'), ''].join('\n');
+}
+
+const AUTHOR_LABELS: Record<AuthorType, string> = { user: 'User', staff: 'Staff', bot: 'Bot' };
+
+/**
+ * Renders a ticket's messages as plain "User: ..." / "Staff: ..." / "Bot: ..." lines for use in a prompt.
+ * Long transcripts are cut from the start, as the latest messages matter most.
+ */
+export function renderTranscriptForModel(messages: TicketMessage[], maxChars = 12000): string {
+  return messages
+    .filter(m => m.content.trim() !== '')
+    .map(m => `${AUTHOR_LABELS[m.author_type]}: ${m.content}`)
+    .join('\n\n')
+    .slice(-maxChars);
+}
+
+/**
+ * Writes a ticket's transcript to `<paths.transcripts>/<thread_id>.md` and `.json`, and records where it was saved.
+ * @param threadId The ticket's thread ID.
+ * @returns The paths of the Markdown and JSON files, or null if the ticket is unknown.
+ */
+export function saveTranscript(threadId: string): { markdownPath: string; jsonPath: string } | null {
+  const ticket = ticketStore.get(threadId);
+  if (!ticket) return null;
+
+  const messages = ticketStore.getMessages(threadId);
+  const intents = ticketStore.getIntents(threadId);
+
+  fs.mkdirSync(config.paths.transcripts, { recursive: true });
+  const markdownPath = path.join(config.paths.transcripts, `${threadId}.md`);
+  const jsonPath = path.join(config.paths.transcripts, `${threadId}.json`);
+  fs.writeFileSync(markdownPath, renderTranscriptMarkdown(ticket, messages, intents));
+  fs.writeFileSync(jsonPath, JSON.stringify({ ticket, intents, messages }, null, 2));
+  getStateDb().prepare('UPDATE tickets SET transcript_path = ? WHERE thread_id = ?').run(markdownPath, threadId);
+  return { markdownPath, jsonPath };
+}
@@ -0,0 +1,212 @@
+import axios from 'axios';
+import { config } from '../config.js';
+import type { ChatMessage, LlmProvider } from './llm.js';
+import { currentCorrelationId, logger } from './logger.js';
+import { metrics } from './metrics.js';
+import { getStateDb } from './state-db.js';
+import { estimateTokens } from './utils.js';
+
+export type LlmCallKind = 'chat' | 'embedding' | 'moderation';
+
+export type BudgetScope = 'day' | 'ticket';
+
+/**
+ * One call to a model, as recorded in `llm_usage`.
+ */
+export interface LlmUsage {
+  id: number;
+  /** The conversation the call was made for (see `LogContext`), or null for e.g. ingestion. */
+  correlation_id: string | null;
+  instance_id: string;
+  provider: string;
+  model: string;
+  kind: LlmCallKind;
+  /** What the call was for, e.g. 'reply', 'intent' or 'embedding'. */
+  purpose: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  /** 1 when the provider did not report usage and the tokens were estimated from the text. */
+  estimated: number;
+  cost_usd: number;
+  latency_ms: number;
+  created_at: string;
+}
+
+/**
+ * Totals over a set of calls.
+ */
+export interface UsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+const TOTALS = 'COUNT(*) AS calls, COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens, COALESCE(SUM(completion_tokens), 0) AS completion_tokens, COALESCE(SUM(cost_usd), 0) AS cost_usd';
+
+/**
+ * Works out what a call cost from `config.costs.pricesPerMillionTokens`; models without a price cost nothing.
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = config.costs.pricesPerMillionTokens[model];
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Token usage and spend of every model call, rolled up per conversation and per day.
+ */
+export const usageStore = {
+  record: (call: Omit<LlmUsage, 'id' | 'created_at' | 'instance_id'>): void => {
+    getStateDb().prepare(`
+      INSERT INTO llm_usage (correlation_id, instance_id, provider, model, kind, purpose, prompt_tokens, completion_tokens, estimated, cost_usd, latency_ms)
+      VALUES (@correlation_id, @instance_id, @provider, @model, @kind, @purpose, @prompt_tokens, @completion_tokens, @estimated, @cost_usd, @latency_ms)
+    `).run({ ...call, instance_id: config.bot.instanceId });
+  },
+
+  /**
+   * Totals for one conversation, e.g. a ticket's thread ID, overall and by purpose.
+   */
+  forConversation: (correlationId: string): UsageTotals & { byPurpose: (UsageTotals & { purpose: string })[] } => {
+    const db = getStateDb();
+    const totals = db.prepare(`SELECT ${TOTALS} FROM llm_usage WHERE correlation_id = ?`).get(correlationId) as UsageTotals;
+    const byPurpose = db.prepare(`SELECT purpose, ${TOTALS} FROM llm_usage WHERE correlation_id = ? GROUP BY purpose ORDER BY cost_usd DESC, purpose`)
+      .all(correlationId) as (UsageTotals & { purpose: string })[];
+    return { ...totals, byPurpose };
+  },
+
+  /**
+   * Totals per UTC day over the last `days` days, oldest first.
+   */
+  daily: (days: number): (UsageTotals & { day: string })[] =>
+    getStateDb().prepare(`
+      SELECT date(created_at) AS day, ${TOTALS} FROM llm_usage
+      WHERE created_at >= date('now', ?) GROUP BY day ORDER BY day
+    `).all(`-${days - 1} days`) as (UsageTotals & { day: string })[],
+
+  /**
+   * The conversations that cost the most over the last `days` days.
+   */
+  topConversations: (days: number, limit: number): (UsageTotals & { correlation_id: string })[] =>
+    getStateDb().prepare(`
+      SELECT correlation_id, ${TOTALS} FROM llm_usage
+      WHERE correlation_id IS NOT NULL AND created_at >= date('now', ?) GROUP BY correlation_id ORDER BY cost_usd DESC LIMIT ?
+    `).all(`-${days - 1} days`, limit) as (UsageTotals & { correlation_id: string })[],
+
+  spentToday: (): number =>
+    (getStateDb().prepare(`SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM llm_usage WHERE created_at >= date('now')`).get() as { spent: number }).spent,
+
+  spentIn: (correlationId: string): number =>
+    (getStateDb().prepare('SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM llm_usage WHERE correlation_id = ?').get(correlationId) as { spent: number }).spent,
+};
+
+/**
+ * Raises an alert for every budget threshold the spend has reached, once per day or ticket and threshold: in the log,
+ * as a metric, and on `config.costs.alertWebhookUrl` when one is set.
+ */
+function checkBudgets(correlationId: string | null): void {
+  const { dailyBudgetUsd, ticketBudgetUsd, warnAt } = config.costs;
+  const budgets: { scope: BudgetScope; key: string; budget: number; spent: () => number }[] = [];
+  if (dailyBudgetUsd > 0) budgets.push({ scope: 'day', key: new Date().toISOString().slice(0, 10), budget: dailyBudgetUsd, spent: usageStore.spentToday });
+  if (ticketBudgetUsd > 0 && correlationId) budgets.push({ scope: 'ticket', key: correlationId, budget: ticketBudgetUsd, spent: () => usageStore.spentIn(correlationId) });
+
+  for (const { scope, key, budget, spent } of budgets) {
+    const total = spent();
+    for (const threshold of [warnAt, 1].filter(share => total >= share * budget)) {
+      const { changes } = getStateDb().prepare('INSERT OR IGNORE INTO budget_alerts (scope, scope_key, threshold, spent_usd) VALUES (?, ?, ?, ?)')
+        .run(scope, key, threshold, total);
+      if (changes === 0) continue;
+
+      const text = `💸 ${scope === 'day' ? `Model spend today (${key} UTC)` : `Model spend in conversation ${key}`} is $${total.toFixed(2)}, `
+        + `${threshold >= 1 ? 'over' : `${Math.round(threshold * 100)}% of`} the ${scope === 'day' ? 'daily' : 'per-ticket'} budget of $${budget.toFixed(2)}.`;
+      logger.warn(text, { event: 'budget_alert', scope, scopeKey: key, spentUsd: total, budgetUsd: budget, threshold });
+      metrics.budgetAlerts.inc({ scope });
+      if (config.costs.alertWebhookUrl) {
+        // Discord webhooks read `content`, Slack ones `text`.
+        axios.post(config.costs.alertWebhookUrl, { content: text, text }, { timeout: 10000 })
+          .catch(error => logger.warn('Could not deliver a budget alert to the webhook.', { error: (error as Error).message }));
+      }
+    }
+  }
+}
+
+/**
+ * Records a finished call: metrics, the `llm_usage` row, a debug log line, and any budget alert it triggers.
+ */
+function recordCall(provider: LlmProvider, call: { model: string; kind: LlmCallKind; purpose: string; promptTokens: number; completionTokens: number; estimated: boolean; seconds: number }): void {
+  const correlationId = currentCorrelationId();
+  const cost = estimateCost(call.model, call.promptTokens, call.completionTokens);
+  metrics.llmRequestSeconds.observe({ provider: provider.name, model: call.model, kind: call.kind }, call.seconds);
+  if (call.kind === 'moderation') return;
+
+  metrics.llmTokens.inc({ model: call.model, type: 'prompt' }, call.promptTokens);
+  metrics.llmTokens.inc({ model: call.model, type: 'completion' }, call.completionTokens);
+  metrics.llmCostUsd.inc({ model: call.model }, cost);
+  logger.debug('Model call', { event: 'llm_call', model: call.model, purpose: call.purpose, promptTokens: call.promptTokens, completionTokens: call.completionTokens, costUsd: cost, latencyMs: Math.round(call.seconds * 1000) });
+  try {
+    usageStore.record({
+      correlation_id: correlationId,
+      provider: provider.name,
+      model: call.model,
+      kind: call.kind,
+      purpose: call.purpose,
+      prompt_tokens: call.promptTokens,
+      completion_tokens: call.completionTokens,
+      estimated: call.estimated ? 1 : 0,
+      cost_usd: cost,
+      latency_ms: Math.round(call.seconds * 1000),
+    });
+    if (cost > 0) checkBudgets(correlationId);
+  } catch (error) {
+    // Accounting must never break an answer.
+    logger.error('Could not record model usage.', { error: error as Error });
+  }
+}
+
+/**
+ * Wraps a provider so that every call is timed, counted and costed. Usage comes from the provider's `usage` fields
+ * where it reports them, and is estimated from the text otherwise, e.g. for embeddings.
+ */
+export function instrumentProvider(provider: LlmProvider): LlmProvider {
+  const timed = async <T>(model: string, kind: LlmCallKind, call: () => Promise<T>): Promise<{ result: T; seconds: number }> => {
+    const started = performance.now();
+    try {
+      return { result: await call(), seconds: (performance.now() - started) / 1000 };
+    } catch (error) {
+      metrics.llmErrors.inc({ provider: provider.name, model, kind });
+      logger.warn(`${provider.name} ${kind} call failed.`, { event: 'llm_error', model, error: (error as Error).message });
+      throw error;
+    }
+  };
+  const promptText = (messages: ChatMessage[]) => messages.map(message => message.content).join('\n');
+
+  return {
+    ...provider,
+
+    chat: async (messages, options = {}) => {
+      const { result, seconds } = await timed(provider.chatModel, 'chat', () => provider.chat(messages, options));
+      recordCall(provider, {
+        model: provider.chatModel,
+        kind: 'chat',
+        purpose: options.purpose ?? 'other',
+        promptTokens: result.usage?.promptTokens ?? estimateTokens(promptText(messages)),
+        completionTokens: result.usage?.completionTokens ?? estimateTokens(result.content ?? ''),
+        estimated: !result.usage,
+        seconds,
+      });
+      return result;
+    },
+
+    embed: async (input) => {
+      const { result, seconds } = await timed(provider.embeddingModel, 'embedding', () => provider.embed(input));
+      recordCall(provider, { model: provider.embeddingModel, kind: 'embedding', purpose: 'embedding', promptTokens: estimateTokens(input), completionTokens: 0, estimated: true, seconds });
+      return result;
+    },
+
+    moderate: provider.moderate && (async (input) => {
+      const { result, seconds } = await timed('moderation', 'moderation', () => provider.moderate!(input));
+      recordCall(provider, { model: 'moderation', kind: 'moderation', purpose: 'moderation', promptTokens: 0, completionTokens: 0, estimated: false, seconds });
+      return result;
+    }),
+  };
+}
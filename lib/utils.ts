@@ -14,4 +14,23 @@ export function chunkText(text: string, chunkSize = 1000, chunkOverlap = 200): s
         i += chunkSize - chunkOverlap;
     }
     return chunks;
-}
\ No newline at end of file
+}
+
+/**
+ * Converts a glob into a regular expression matching the whole string. `*` matches any run of characters
+ * (including '/'), `?` matches a single character, and everything else is literal.
+ * @param pattern The glob, e.g. "https://example.com/docs/*".
+ * @returns The anchored regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const source = pattern.split('').map(c => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&'))).join('');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Estimates how many tokens a text takes, at about four characters a token. Close enough for budgets, and it needs no
+ * tokenizer for whichever model is configured.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
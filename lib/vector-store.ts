@@ -1,58 +1,220 @@
-import { connect } from '@lancedb/lancedb';
-import { OpenAI } from 'openai';
+import { connect, Table } from '@lancedb/lancedb';
 import { config } from '../config.js';
+import { llm } from './llm.js';
+import { prompts } from '../prompts.js';
+import { DEFAULT_NAMESPACE, knowledgeTableName } from './kb-namespaces.js';
+import { metrics } from './metrics.js';
+import { audienceFilter, KnowledgeAccess, PUBLIC_ACCESS, PUBLIC_AUDIENCE, SourceAudience } from './kb-audiences.js';
 
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
+/**
+ * A knowledge base passage returned by the retriever.
+ */
+export interface RetrievedDocument {
+  id: string;
+  content: string;
+  title: string;
+  url: string;
+  /** Heading path of the chunk, e.g. "Setup > Installation"; empty when the source has no headings. */
+  section: string;
+  /** 1-based page number, or 0 when the source is not paginated. */
+  page: number;
+  /** Fragment identifier of the chunk's section, for linking to `url#anchor`; empty when unknown. */
+  anchor: string;
+  /** Who may read the passage's source; only ever other than public for requesters who may read it. */
+  audience: SourceAudience;
+  /** Cosine similarity between the query and the passage, 1 for a perfect match; for merged passages, the best chunk's score. */
+  score: number;
+}
+
+/** A row as returned by LanceDB, before its similarity to the query has been worked out. */
+type SearchRow = Omit<RetrievedDocument, 'score'> & { _distance?: number; vector?: ArrayLike<number> };
+
+const COLUMNS = ['id', 'content', 'title', 'url', 'section', 'page', 'anchor', 'audience'];
+
+// Adjacent chunks are merged into a single passage up to this many chunks, keeping passages a reasonable size.
+const MAX_CHUNKS_PER_PASSAGE = 3;
+
+/**
+ * Splits a chunk ID of the form `<sourceId>-chunk:<n>@<hash>` into its source ID and chunk number.
+ */
+export function parseChunkId(id: string): { sourceId: string; chunkIndex: number } {
+  const match = /^(.*)-chunk:(\d+)/.exec(id);
+  return match ? { sourceId: match[1], chunkIndex: Number(match[2]) } : { sourceId: id, chunkIndex: -1 };
+}
+
+/**
+ * Joins two consecutive chunks, dropping the text they share because of chunk overlap.
+ */
+function joinOverlapping(first: string, second: string): string {
+  for (let n = Math.min(first.length, second.length); n > 0; n--) {
+    if (first.endsWith(second.slice(0, n))) {
+      return first + second.slice(n);
+    }
+  }
+  return `${first}\n${second}`;
+}
+
+/**
+ * Combines several rankings with reciprocal rank fusion: each document scores 1 / (rrfK + rank) per list it appears in.
+ */
+function fuseRankings(rankings: RetrievedDocument[][]): RetrievedDocument[] {
+  const scores = new Map<string, { doc: RetrievedDocument; score: number }>();
+  for (const ranking of rankings) {
+    ranking.forEach((doc, rank) => {
+      const entry = scores.get(doc.id) ?? { doc, score: 0 };
+      entry.score += 1 / (config.retrieval.rrfK + rank + 1);
+      scores.set(doc.id, entry);
+    });
+  }
+  return [...scores.values()].sort((a, b) => b.score - a.score).map(entry => entry.doc);
+}
+
+/**
+ * Merges adjacent chunks of the same source into one passage and caps the number of passages per source.
+ * Each merged passage keeps the position of its best-ranked chunk.
+ */
+function dedupeBySource(docs: RetrievedDocument[]): RetrievedDocument[] {
+  const passages: { doc: RetrievedDocument; sourceId: string; first: number; last: number }[] = [];
+  for (const doc of docs) {
+    const { sourceId, chunkIndex } = parseChunkId(doc.id);
+    const sameSource = passages.filter(p => p.sourceId === sourceId);
+    const neighbour = chunkIndex >= 0 && sameSource.find(p =>
+      (chunkIndex === p.last + 1 || chunkIndex === p.first - 1) && p.last - p.first + 1 < MAX_CHUNKS_PER_PASSAGE);
+    if (neighbour) {
+      if (chunkIndex === neighbour.last + 1) {
+        neighbour.doc = { ...neighbour.doc, content: joinOverlapping(neighbour.doc.content, doc.content), score: Math.max(neighbour.doc.score, doc.score) };
+        neighbour.last = chunkIndex;
+      } else {
+        neighbour.doc = { ...neighbour.doc, content: joinOverlapping(doc.content, neighbour.doc.content), score: Math.max(neighbour.doc.score, doc.score) };
+        neighbour.first = chunkIndex;
+      }
+    } else if (sameSource.length < config.retrieval.maxChunksPerSource && !sameSource.some(p => chunkIndex >= p.first && chunkIndex <= p.last)) {
+      passages.push({ doc, sourceId, first: chunkIndex, last: chunkIndex });
+    }
+  }
+  return passages.map(p => p.doc);
+}
+
+/**
+ * Asks the chat model to reorder the candidates; any candidate it leaves out keeps its relative order at the end.
+ */
+async function rerankWithLlm(query: string, docs: RetrievedDocument[]): Promise<RetrievedDocument[]> {
+  try {
+    const response = await llm.chat([{ role: 'user', content: prompts.rerank_passages(query, docs.map(doc => doc.content)) }], {
+      maxTokens: 100,
+      temperature: 0,
+      purpose: 'rerank',
+    });
+    const order = (response.content ?? '').match(/\d+/g)?.map(n => Number(n) - 1).filter(i => i >= 0 && i < docs.length) ?? [];
+    const ranked = [...new Set(order)].map(i => docs[i]);
+    return [...ranked, ...docs.filter(doc => !ranked.includes(doc))];
+  } catch (error) {
+    console.warn('⚠️ Reranking failed, keeping the fused order:', (error as Error).message);
+    return docs;
+  }
+}
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Keyword matches carry no vector distance, so their vectors are fetched too and compared with the query directly.
+ */
+async function fullTextSearch(table: Table, query: string, columns: string[], filter: string | undefined): Promise<SearchRow[]> {
+  try {
+    let search = table.query().fullTextSearch(query).select([...columns, 'vector']).limit(config.retrieval.candidates);
+    if (filter) search = search.where(filter);
+    return (await search.toArray()) as SearchRow[];
+  } catch (error: any) {
+    // Tables ingested before hybrid search have no full-text index until the next ingestion run creates it.
+    console.warn('⚠️ Full-text search unavailable, using vector search only:', error.message.split('\n')[0]);
+    return [];
+  }
+}
 
 /**
  * An object that provides an interface for interacting with the vector store.
  */
 export const vectorStore = {
   /**
-   * Searches for documents in the LanceDB table that are semantically similar to the given query.
+   * Finds the knowledge base passages most relevant to the given query.
+   * Vector search and full-text (BM25) search run side by side so that exact matches on error codes, CLI flags
+   * and product names are not lost; their rankings are fused, optionally reranked, and overlapping chunks of
+   * the same source are merged before the top `k` are returned.
    * @param query The user's query string.
-   * @param k The number of similar documents to return.
-   * @returns A promise that resolves to an array of search result documents, each with content, title, and url.
+   * @param k The number of passages to return.
+   * @param namespace The knowledge base namespace to search; other namespaces are never consulted.
+   * @param access What the requester may read; passages of other sources are never returned. Defaults to public sources only.
+   * @returns A promise that resolves to an array of passages, each with its chunk ID, content, title, url, location and similarity score.
    */
-  similaritySearch: async (query: string, k: number = 3): Promise<{ content: string, title: string, url: string }[]> => {
+  similaritySearch: async (query: string, k: number = 3, namespace: string = DEFAULT_NAMESPACE, access: KnowledgeAccess = PUBLIC_ACCESS): Promise<RetrievedDocument[]> => {
     if (!query || query.trim() === '') {
       console.warn('⚠️ Similarity search called with an empty query.');
       return [];
     }
 
+    const tableName = knowledgeTableName(namespace);
+    const stopTimer = metrics.retrievalSeconds.startTimer({ namespace });
     try {
       const db = await connect(config.paths.lanceDb);
-      const table = await db.openTable('discourse_threads');
-      
-      const embRes = await openai.embeddings.create({
-        model: "text-embedding-ada-002",
-        input: query,
-      });
-      const queryEmbedding = embRes.data[0].embedding;
-
-      const results = await table
-        .search(queryEmbedding)
-        .limit(k)
-        .select(['content', 'title', 'url']) // Explicitly select the required columns
-        .toArray();
+      const table = await db.openTable(tableName);
+
+      // Tables ingested before chunks carried citation metadata lack some columns until the next ingestion run.
+      const fields = (await table.schema()).fields.map(field => field.name);
+      const columns = COLUMNS.filter(column => fields.includes(column));
+      // Without an audience column every chunk is public, as nothing restricted has been ingested into the table yet.
+      const filter = fields.includes('audience') ? audienceFilter(access) : undefined;
+
+      const queryEmbedding = await llm.embed(query);
+
+      let vectorSearch = table.vectorSearch(queryEmbedding).distanceType('cosine').limit(config.retrieval.candidates).select(columns);
+      if (filter) vectorSearch = vectorSearch.where(filter);
+      const [vectorResults, keywordResults] = await Promise.all([
+        vectorSearch.toArray() as Promise<SearchRow[]>,
+        fullTextSearch(table, query, columns, filter),
+      ]);
+      // Cosine distance is 1 - cosine similarity.
+      const withScore = (rows: SearchRow[]): RetrievedDocument[] => rows.map(({ _distance, vector, ...row }) => ({
+        ...row,
+        score: _distance !== undefined ? 1 - _distance : vector ? cosineSimilarity(queryEmbedding, Array.from(vector)) : 0,
+      }));
+
+      let candidates = dedupeBySource(fuseRankings([withScore(vectorResults), withScore(keywordResults)]));
+      if (config.retrieval.rerank === 'llm') {
+        candidates = await rerankWithLlm(query, candidates.slice(0, k * 2));
+      }
 
       // Return the structured data
-      return results.map((doc: any) => ({
+      return candidates.slice(0, k).map(doc => ({
+        id: doc.id,
         content: doc.content,
         title: doc.title,
         url: doc.url,
+        section: doc.section ?? '',
+        page: doc.page ?? 0,
+        anchor: doc.anchor ?? '',
+        audience: doc.audience ?? PUBLIC_AUDIENCE,
+        score: doc.score,
       }));
 
     } catch (error: any) {
-      if (error.message.includes('Table discourse_threads not found')) {
-        console.warn('⚠️ Vector DB table not found. Please run an ingestor script first.');
+      if (error.message.includes(`Table ${tableName} not found`) || error.message.includes(`Table '${tableName}' was not found`)) {
+        console.warn(`⚠️ Vector DB table for namespace "${namespace}" not found. Please run an ingestor script first.`);
       } else {
         console.error('❌ Error during similarity search:', error);
       }
       return []; // Return an empty array on failure.
+    } finally {
+      stopTimer();
     }
   }
 };
-
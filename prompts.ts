@@ -1,32 +1,138 @@
 // prompts.ts
+import { config } from './config.js';
+import { renderPrompt, RenderedPrompt } from './lib/prompt-templates.js';
+import type { DetectedLanguage } from './lib/language.js';
 
+/**
+ * Written by the model at the end of a reply when it cannot answer, so the bot can offer to escalate.
+ */
+export const ESCALATION_OFFER_MARKER = '[OFFER_ESCALATION]';
+
+export type ReplyTone = 'professional' | 'friendly' | 'casual';
+export type ReplyLength = 'short' | 'medium' | 'long';
+
+export const REPLY_TONES: Record<ReplyTone, string> = {
+    professional: 'Be professional, courteous and to the point.',
+    friendly: 'Be warm and friendly, like a helpful colleague, while staying precise.',
+    casual: 'Keep it casual and relaxed: plain words, no formalities.',
+};
+
+export const REPLY_LENGTHS: Record<ReplyLength, { instruction: string; maxTokens: number }> = {
+    short: { instruction: 'Keep replies short: two or three sentences, or a brief list of steps.', maxTokens: Math.round(config.bot.max_reply_tokens / 2) },
+    medium: { instruction: 'Be concise. Do not write very long replies.', maxTokens: config.bot.max_reply_tokens },
+    long: { instruction: 'Give complete, step-by-step answers when the question calls for it.', maxTokens: config.bot.max_reply_tokens * 2 },
+};
+
+/**
+ * How the bot words its replies in a channel, and what it says about the product.
+ */
+export interface ReplyStyle {
+    /** Who the bot presents itself as, e.g. "Ada, Acme's support assistant". */
+    persona: string;
+    tone: ReplyTone;
+    length: ReplyLength;
+    productName: string;
+    supportEmail: string;
+}
+
+/**
+ * The prompts the bot sends to the model. The wording lives in versioned template files under
+ * `config.prompts.templatesPath`; the functions below only supply the variables.
+ */
 export const prompts = {
     /**
      * This prompt is used by the "Agent Brain" to classify the user's intent.
      */
-    intent_classifier: (last_message_content: string) => `
-  Analyze the following email and classify its primary intent based ONLY on the categories provided.
+    intent_classifier: (last_message_content: string) =>
+        renderPrompt('intent_classifier', { message: last_message_content }).text,
+
+    /**
+     * This is the main system prompt for answering a user's question. Returns the version too, as it is recorded
+     * with every answer.
+     * @param language The language of the user's latest message, or null to let the model work it out.
+     * @param conversation_summary The rolling summary of the messages that no longer fit the context, or null if all do.
+     */
+    ai_reply_system: (topic_title: string, knowledge_base_context: string, style: ReplyStyle, language: DetectedLanguage | null, conversation_summary: string | null = null): RenderedPrompt =>
+        renderPrompt('ai_reply_system', {
+            topic_title,
+            knowledge_base: knowledge_base_context,
+            conversation_summary: conversation_summary ?? 'Nothing; the whole conversation follows.',
+            persona: style.persona,
+            product_name: style.productName,
+            support_email: style.supportEmail,
+            tone_instruction: REPLY_TONES[style.tone],
+            length_instruction: REPLY_LENGTHS[style.length].instruction,
+            language_instruction: language
+                ? `Reply in ${language.name}, the language of the user's latest message.`
+                : "Reply in the same language as the user's latest message.",
+            escalation_marker: ESCALATION_OFFER_MARKER,
+        }),
+
+    /**
+     * This prompt is used to turn a follow-up message into a standalone knowledge base search query.
+     */
+    rewrite_query: (latest_message: string, conversation_summary: string | null, recent_transcript: string) =>
+        renderPrompt('rewrite_query', {
+            latest_message,
+            summary: conversation_summary ?? 'None yet.',
+            messages: recent_transcript || 'None.',
+        }).text,
+
+    /**
+     * This prompt is used to fold messages that no longer fit the context into a conversation's rolling summary.
+     */
+    summarize_conversation: (topic_title: string, previous_summary: string | null, transcript: string, max_words: number) =>
+        renderPrompt('summarize_conversation', {
+            topic_title,
+            summary: previous_summary ?? 'None yet.',
+            messages: transcript,
+            max_words: String(max_words),
+        }).text,
 
-Categories:
-- "question": The user is asking a direct question (often ending with '?'), seeking help with a problem, requesting information, or asking how to perform a task. This applies even if the question is part of a longer explanation.
-- "escalation_request": The user is explicitly asking for a human, a support agent, to create a ticket, or expresses strong frustration/anger.
-- "follow_up": The user is saying thank you, acknowledging a reply, or providing a simple follow-up that needs no action.
-- "other": The post is a general comment, feedback, spam, or does not fit the other categories.
+    /**
+     * This prompt is used to rerank retrieved knowledge base passages by relevance to the user's question.
+     */
+    rerank_passages: (query: string, passages: string[]) =>
+        renderPrompt('rerank_passages', {
+            question: query,
+            passages: passages.map((passage, index) => `[${index + 1}] ${passage.slice(0, 500)}`).join('\n\n'),
+        }).text,
 
-Email: "${last_message_content}"
+    /**
+     * This prompt is used to check that a drafted answer only states what the knowledge base passages support.
+     */
+    grounding_check: (answer: string, knowledge_base_context: string) =>
+        renderPrompt('grounding_check', { answer, knowledge_base: knowledge_base_context }).text,
 
-Respond with ONLY the single keyword for the category and nothing else.
-Category:`,
+    /**
+     * This prompt is used to brief the support team when a ticket is escalated.
+     */
+    summarize_escalation: (ticket_name: string, transcript: string) =>
+        renderPrompt('summarize_escalation', { ticket_name, transcript }).text,
+
+    /**
+     * This prompt is used to turn a closed support ticket into a reusable question/answer pair for staff review.
+     */
+    summarize_resolution: (ticket_name: string, transcript: string) =>
+        renderPrompt('summarize_resolution', { ticket_name, transcript }).text,
+
+    /**
+     * This prompt is used to pick the tags of a new forum post from the tags its forum offers.
+     */
+    classify_forum_tags: (title: string, post: string, tags: string[], max_tags: number) =>
+        renderPrompt('classify_forum_tags', { title, post, tags: tags.map(tag => `- ${tag}`).join('\n'), max_tags: String(max_tags) }).text,
 
     /**
-     * This is the main system prompt for answering a user's question.
+     * This prompt is used to turn an answer written for the support team into a reply they can send the customer.
+     * @param conversation The ticket's latest messages, or null when the question was not asked in a ticket.
+     * @param sources The sources the answer cites, one per line, each with who may read it.
      */
-    ai_reply_system: (email_subject: string, knowledge_base_context: string) => `
-  You are an expert AI support assistant for the email thread with subject "${email_subject}".
-Instructions: Use the KNOWLEDGE BASE. Analyze the conversation history for context, but focus on the latest post from the user.
-- Be concise, professional, and helpful. Do not write very long replies.
-- **Cite sources using the format [1], [2], etc.**
-- If you don't know the answer, politely state that you will escalate this to a human agent.
---- KNOWLEDGE BASE ---
-${knowledge_base_context}`
-};
\ No newline at end of file
+    draft_ticket_reply: (product_name: string, question: string, conversation: string | null, answer: string, sources: string) =>
+        renderPrompt('draft_ticket_reply', {
+            product_name,
+            question,
+            conversation: conversation ?? 'None; the question was not asked in a ticket.',
+            answer,
+            sources: sources || 'None.',
+        }).text,
+};
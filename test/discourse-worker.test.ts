@@ -0,0 +1,124 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+
+// config.ts reads the environment when it is first imported, so everything under test is imported after this.
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discourse-worker-test-'));
+Object.assign(process.env, {
+  LLM_PROVIDER: 'fake',
+  LANCE_DB_PATH: path.join(dataDir, 'lancedb'),
+  STATE_DB_PATH: path.join(dataDir, 'bot_state.db'),
+  LOG_LEVEL: 'error',
+});
+
+const { createDiscourseClient } = await import('../lib/discourse-client.js');
+const { createDiscourseWorker, MAX_POST_ATTEMPTS } = await import('../lib/discourse-worker.js');
+const { getStateDb } = await import('../lib/state-db.js');
+
+interface StandInPost { id: number; topic_id: number; post_number: number; post_type: number; username: string; cooked: string; raw: string }
+
+/**
+ * A stand-in for the few Discourse endpoints the worker uses. Replies to the topics in `failingTopics` are rejected
+ * with a 500 until the topic is taken out again.
+ */
+const forum = {
+  posts: [] as StandInPost[],
+  replies: [] as { topic_id: number; raw: string }[],
+  failingTopics: new Set<number>(),
+  nextId: 10_000,
+};
+
+let server: Server;
+let worker: ReturnType<typeof createDiscourseWorker>;
+
+before(async () => {
+  // The worker logs each failure with the whole Axios error, which is noise here and can garble the test runner's output.
+  for (const method of ['log', 'warn', 'error'] as const) mock.method(console, method, () => {});
+
+  const app = express();
+  app.use(express.json());
+  app.get('/posts.json', (_req, res) => {
+    res.json({ latest_posts: [...forum.posts].reverse() });
+  });
+  app.get('/t/:id.json', (req, res) => {
+    const topicId = Number(req.params.id);
+    res.json({ id: topicId, title: `Topic ${topicId}`, post_stream: { posts: forum.posts.filter(p => p.topic_id === topicId) } });
+  });
+  app.post('/posts.json', (req, res) => {
+    const { topic_id: topicId, raw } = req.body;
+    if (forum.failingTopics.has(topicId)) {
+      res.status(500).json({ errors: ['Something went wrong.'] });
+      return;
+    }
+    forum.replies.push({ topic_id: topicId, raw });
+    const postNumber = forum.posts.filter(p => p.topic_id === topicId).length + 1;
+    res.json({ id: forum.nextId++, topic_id: topicId, post_number: postNumber, post_type: 1, username: 'system', cooked: raw, raw });
+  });
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  worker = createDiscourseWorker(createDiscourseClient({ baseUrl: `http://127.0.0.1:${port}`, apiKey: 'test', apiUsername: 'system' }));
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+const addQuestion = (id: number, topicId: number) => forum.posts.push({
+  id, topic_id: topicId, post_number: 1, post_type: 1, username: 'alice', cooked: '', raw: 'How do I reset my password?',
+});
+const isHandled = (postId: number) => !!getStateDb().prepare('SELECT 1 FROM replied_posts WHERE id = ?').get(postId);
+const attemptsOf = (postId: number) =>
+  (getStateDb().prepare('SELECT attempts FROM discourse_post_failures WHERE post_id = ?').get(postId) as { attempts: number } | undefined)?.attempts ?? 0;
+const repliesIn = (topicId: number) => forum.replies.filter(reply => reply.topic_id === topicId).length;
+
+test('marks a post handled once its reply is posted, and does not answer it again', async () => {
+  addQuestion(101, 1);
+  await worker.pollOnce();
+  assert.equal(repliesIn(1), 1);
+  assert.equal(isHandled(101), true);
+  assert.equal(attemptsOf(101), 0);
+
+  await worker.pollOnce();
+  assert.equal(repliesIn(1), 1);
+});
+
+test('retries a post whose reply failed, and marks it handled once the reply goes through', async () => {
+  addQuestion(201, 2);
+  forum.failingTopics.add(2);
+  await worker.pollOnce();
+  assert.equal(isHandled(201), false);
+  assert.equal(attemptsOf(201), 1);
+
+  forum.failingTopics.delete(2);
+  await worker.pollOnce();
+  assert.equal(repliesIn(2), 1);
+  assert.equal(isHandled(201), true);
+});
+
+test(`gives up on a post after ${MAX_POST_ATTEMPTS} failed attempts`, async () => {
+  addQuestion(301, 3);
+  forum.failingTopics.add(3);
+  for (let attempt = 1; attempt < MAX_POST_ATTEMPTS; attempt++) {
+    await worker.pollOnce();
+    assert.equal(isHandled(301), false, `handled after ${attempt} failed attempt(s)`);
+    assert.equal(attemptsOf(301), attempt);
+  }
+
+  await worker.pollOnce();
+  assert.equal(attemptsOf(301), MAX_POST_ATTEMPTS);
+  assert.equal(isHandled(301), true);
+
+  // Given up for good: even once the forum accepts replies again, the post is not tried anymore.
+  forum.failingTopics.delete(3);
+  await worker.pollOnce();
+  assert.equal(repliesIn(3), 0);
+  assert.equal(attemptsOf(301), MAX_POST_ATTEMPTS);
+});
@@ -0,0 +1,68 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// config.ts reads the environment when it is first imported, so everything under test is imported after this.
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-test-'));
+Object.assign(process.env, {
+  LLM_PROVIDER: 'fake',
+  LANCE_DB_PATH: path.join(dataDir, 'lancedb'),
+  STATE_DB_PATH: path.join(dataDir, 'bot_state.db'),
+  LOG_LEVEL: 'error',
+});
+
+const { determineUserIntent, generateAiReply } = await import('../lib/agent.js');
+const { vectorStore } = await import('../lib/vector-store.js');
+const { chunkBlocks, markdownToBlocks } = await import('../lib/chunker.js');
+const { hashContent, openKnowledgeTable, replaceSourceChunks } = await import('../lib/knowledge-base.js');
+
+const GUIDE = `# Resetting your password
+
+To reset your Acme password, open the login page and press "Forgot password". Acme emails you a reset link that stays valid for 24 hours.
+
+# Exporting invoices
+
+Invoices are exported as CSV files from the billing page.`;
+
+before(async () => {
+  const table = await openKnowledgeTable();
+  await replaceSourceChunks(table, {
+    sourceId: 'doc:guide.md',
+    title: 'DOC: guide.md',
+    url: 'local://guide.md',
+    contentHash: hashContent(GUIDE),
+    chunks: chunkBlocks(markdownToBlocks(GUIDE)),
+  });
+});
+
+after(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('classifies a question as a question', async () => {
+  assert.equal(await determineUserIntent('How do I reset my Acme password?'), 'question');
+});
+
+test('retrieves the section that answers the question first', async () => {
+  const [first] = await vectorStore.similaritySearch('How do I reset my Acme password?', 3);
+  assert.ok(first, 'nothing was retrieved');
+  assert.match(first.id, /^doc:guide\.md-chunk:/);
+  assert.match(first.content, /Forgot password/);
+});
+
+test('answers from the knowledge base, citing a grounded source', async () => {
+  const reply = await generateAiReply('Password reset', [{ role: 'user', content: 'How do I reset my Acme password?' }]);
+  assert.equal(reply.escalate, false);
+  assert.equal(reply.grounding, 'supported');
+  assert.match(reply.text, /\[1\]/);
+  assert.deepEqual(reply.sources.map(source => source.number), [1]);
+  assert.match(reply.sourceIds[0], /^doc:guide\.md-chunk:/);
+});
+
+test('escalates a question the knowledge base cannot answer', async () => {
+  const reply = await generateAiReply('Refunds', [{ role: 'user', content: 'Can my subscription money come back?' }]);
+  assert.ok(reply.escalate || reply.offersEscalation, `expected an escalation, got "${reply.text}"`);
+  assert.deepEqual(reply.sources, []);
+});
@@ -0,0 +1,5 @@
+// The package's main module runs a debug self-test when imported as ESM, so the bot imports its library entry instead.
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  import pdf from 'pdf-parse';
+  export default pdf;
+}